@@ -4,16 +4,21 @@ import { Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import Colors from '@/constants/colors';
+import { useSettings } from '@/context/SettingsContext';
 
 export default function TabLayout() {
   const insets = useSafeAreaInsets();
+  // The customer display stays on Scan; other tabs are merchant-only
+  const { settings } = useSettings();
+  const isCustomerDisplay = settings.customerDisplay;
   
   return (
     <Tabs
+      backBehavior={isCustomerDisplay ? 'none' : 'firstRoute'}
       screenOptions={{
         headerShown: false,
         tabBarHideOnKeyboard: true,
-        tabBarStyle: Platform.select({
+        tabBarStyle: isCustomerDisplay ? { display: 'none' } : Platform.select({
           ios: {
             position: 'absolute',
             height: 70 + insets.bottom,
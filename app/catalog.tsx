@@ -0,0 +1,3 @@
+import CatalogScreen from '@/screens/main/CatalogScreen';
+
+export default CatalogScreen;
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Redirect, router, useLocalSearchParams } from 'expo-router';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { useSettings } from '@/context/SettingsContext';
+import Colors from '@/constants/colors';
+import { returnToCaller, setPendingCharge } from '@/services/payments/chargeIntentService';
+import { parseChargeIntent } from '@/utils/chargeIntent';
+
+type ChargeParseResult = ReturnType<typeof parseChargeIntent>;
+
+/**
+ * Entry point for fpmerchant://charge?amount=1250&currency=USD&ref=ORDER42&callback=...
+ * Valid charges are handed to the Scan screen; anything else is explained here.
+ */
+export default function Charge() {
+  const params = useLocalSearchParams();
+  const { isAuthenticated, isLoading, currency } = useAuth();
+  const { settings, isLoaded: settingsLoaded } = useSettings();
+  const isReady = !isLoading && settingsLoaded;
+
+  const [result, setResult] = useState<ChargeParseResult | null>(null);
+
+  // Parsed once the account and its allow-list are known, so the charge is handed over exactly once
+  useEffect(() => {
+    if (result || !isReady || !isAuthenticated) return;
+
+    const parsed = parseChargeIntent(params, { allowedOrigins: settings.chargeCallbackOrigins, currency });
+    setResult(parsed);
+    if (parsed.intent) {
+      setPendingCharge(parsed.intent);
+      router.replace('/(tabs)/scan');
+    } else if (parsed.callbackUrl) {
+      // Tell an allowed caller why its charge was refused
+      returnToCaller(
+        { amount: 0, currency, callbackUrl: parsed.callbackUrl },
+        { status: 'invalid', error: parsed.error }
+      );
+    }
+  }, [result, isReady, isAuthenticated, params, settings.chargeCallbackOrigins, currency]);
+
+  if (isReady && !isAuthenticated) {
+    return <Redirect href="/welcome" />;
+  }
+
+  if (!result || result.intent) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="alert-circle" size={56} color={Colors.error} />
+      <Text style={styles.title}>Charge Not Started</Text>
+      <Text style={styles.message}>{result.error}</Text>
+      <TouchableOpacity style={styles.button} onPress={() => router.replace('/(tabs)/scan')}>
+        <Text style={styles.buttonText}>Go to Scan</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: Colors.background.primary,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 16,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -1,12 +1,14 @@
 import { Redirect } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
+import { useSettings } from '@/context/SettingsContext';
 import { View, ActivityIndicator } from 'react-native';
 import Colors from '@/constants/colors';
 
 export default function Index() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, hasPendingPayments } = useAuth();
+  const { settings, isLoaded: settingsLoaded } = useSettings();
 
-  if (isLoading) {
+  if (isLoading || !settingsLoaded) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: Colors.background.primary }}>
         <ActivityIndicator size="large" color={Colors.primary} />
@@ -15,7 +17,9 @@ export default function Index() {
   }
 
   if (isAuthenticated) {
-    return <Redirect href="/(tabs)" />;
+    // Land on Scan so unfinished payment requests are picked up straight away,
+    // and so a counter device comes back up in the customer display
+    return <Redirect href={hasPendingPayments || settings.customerDisplay ? '/(tabs)/scan' : '/(tabs)'} />;
   }
 
   return <Redirect href="/welcome" />;
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * ESC/POS printer stand-in
+ * Listens like a LAN thermal printer and logs what the app sends, so printing can be tried without hardware.
+ *
+ * Usage: npm run printer-stub -- [port] [output file]
+ * Point the app's printer settings at this computer's IP and the port (9100 by default).
+ * Every job is appended raw to the output file when one is given, for byte-level comparison.
+ */
+
+const { Buffer } = require('buffer');
+const fs = require('fs');
+const net = require('net');
+
+const port = Number(process.argv[2]) || 9100;
+const outputFile = process.argv[3];
+
+// Command bytes shown by name instead of as text
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const describe = (bytes) => {
+  const parts = [];
+  let text = '';
+  const flushText = () => {
+    if (text) parts.push(text);
+    text = '';
+  };
+
+  for (const byte of bytes) {
+    if (byte === LF) {
+      flushText();
+      parts.push('\n');
+    } else if (byte === ESC || byte === GS) {
+      flushText();
+      parts.push(byte === ESC ? '<ESC>' : '<GS>');
+    } else if (byte >= 0x20 && byte <= 0x7e) {
+      text += String.fromCharCode(byte);
+    } else {
+      flushText();
+      parts.push(`<${byte.toString(16).padStart(2, '0')}>`);
+    }
+  }
+  flushText();
+  return parts.join('');
+};
+
+const server = net.createServer((socket) => {
+  const chunks = [];
+  const from = `${socket.remoteAddress}:${socket.remotePort}`;
+
+  socket.on('data', (chunk) => chunks.push(chunk));
+  socket.on('end', () => {
+    const job = Buffer.concat(chunks);
+    if (job.length === 0) {
+      console.log(`[${new Date().toISOString()}] ${from} probed the port`);
+      return;
+    }
+
+    console.log(`[${new Date().toISOString()}] ${from} sent ${job.length} bytes`);
+    console.log(describe(job));
+    console.log('-'.repeat(48));
+
+    if (outputFile) {
+      fs.appendFileSync(outputFile, job);
+    }
+  });
+  socket.on('error', (error) => console.error(`${from}: ${error.message}`));
+});
+
+server.listen(port, () => {
+  console.log(`ESC/POS printer stub listening on port ${port}`);
+});
@@ -2,3 +2,8 @@
 export { default as FaceVerificationComponent } from './screens/FaceVerificationComponent';
 export { default as PaymentWaitingScreen } from './modals/PaymentWaitingScreen';
 export { default as PinVerificationModal } from './modals/PinVerificationModal';
+export { default as TipSelector } from './ui/TipSelector';
+export { default as CartBuilder } from './ui/CartBuilder';
+export { default as CountdownRing } from './ui/CountdownRing';
+export { default as PinPad } from './ui/PinPad';
+export { default as QRCode } from './ui/QRCode';
@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Animated } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import PinPad from '@/components/ui/PinPad';
+import { checkMerchantPin, getMerchantPinLock, hasMerchantPin, setMerchantPin } from '@/services/security/merchantPinService';
+import { formatCountdown, getTimeRemaining } from '@/utils/timeUtils';
+
+const MERCHANT_PIN_LENGTH = 4;
+
+interface MerchantPinModalProps {
+  visible: boolean;
+  mode: 'create' | 'verify'; // Create asks for the PIN twice and saves it
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const getLockRemaining = (lockedUntil: string | null) =>
+  lockedUntil ? getTimeRemaining(lockedUntil) : null;
+
+/**
+ * Merchant PIN prompt for the customer display. Without a saved PIN, verify succeeds straight away
+ * so a device cannot get stuck in customer mode. Repeated wrong PINs lock the keypad for a while.
+ */
+export default function MerchantPinModal({ visible, mode, onClose, onSuccess }: MerchantPinModalProps) {
+  const [pin, setPin] = useState('');
+  const [firstEntry, setFirstEntry] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [lockRemaining, setLockRemaining] = useState(() => getLockRemaining(lockedUntil));
+  const isLocked = !!lockRemaining && !lockRemaining.expired;
+  const shakeAnimation = useRef(new Animated.Value(0)).current;
+  // Latest callback, so a parent re-render does not reset the prompt
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setFirstEntry(null);
+    setError('');
+    setLockedUntil(null);
+
+    if (mode === 'verify') {
+      hasMerchantPin().then(saved => {
+        if (!saved) onSuccessRef.current();
+      });
+      // A lockout outlives the prompt, so reopening it does not allow more guesses
+      getMerchantPinLock().then(setLockedUntil);
+    }
+  }, [visible, mode]);
+
+  // Tick the lockout countdown, then hand the keypad back
+  useEffect(() => {
+    setLockRemaining(getLockRemaining(lockedUntil));
+    if (!lockedUntil) return;
+
+    const interval = setInterval(() => {
+      const remaining = getTimeRemaining(lockedUntil);
+      setLockRemaining(remaining);
+      if (remaining.expired) {
+        clearInterval(interval);
+        setError('');
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const shakePin = () => {
+    Animated.sequence([
+      Animated.timing(shakeAnimation, { toValue: 10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: -10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: 10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: 0, duration: 100, useNativeDriver: true }),
+    ]).start();
+  };
+
+  const fail = (message: string) => {
+    setError(message);
+    setPin('');
+    shakePin();
+  };
+
+  const handleComplete = async (value: string) => {
+    setBusy(true);
+    try {
+      if (mode === 'verify') {
+        let result;
+        try {
+          result = await checkMerchantPin(value);
+        } catch {
+          fail('Could not check the merchant PIN. Please try again.');
+          return;
+        }
+        switch (result.kind) {
+          case 'Accepted':
+            onSuccess();
+            break;
+          case 'Locked':
+            setLockedUntil(result.lockedUntil);
+            fail('');
+            break;
+          case 'Rejected':
+            setLockedUntil(result.lockedUntil);
+            fail(result.attemptsRemaining > 0
+              ? `Incorrect merchant PIN. ${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? 'try' : 'tries'} left before a lockout.`
+              : 'Incorrect merchant PIN');
+            break;
+        }
+        return;
+      }
+
+      if (!firstEntry) {
+        setFirstEntry(value);
+        setPin('');
+        return;
+      }
+
+      if (firstEntry !== value) {
+        setFirstEntry(null);
+        fail('PINs did not match. Please start again.');
+        return;
+      }
+
+      try {
+        await setMerchantPin(value);
+        onSuccess();
+      } catch {
+        setFirstEntry(null);
+        fail('Could not save the merchant PIN. Please try again.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const title = mode === 'verify'
+    ? 'Merchant PIN'
+    : firstEntry ? 'Confirm Merchant PIN' : 'Set a Merchant PIN';
+  const subtitle = mode === 'verify'
+    ? 'Enter the merchant PIN to use merchant controls.'
+    : firstEntry
+      ? 'Enter the same PIN again.'
+      : 'Customers will not be able to leave the customer display without this PIN.';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color={Colors.text.secondary} />
+          </TouchableOpacity>
+
+          <View style={styles.iconContainer}>
+            <Ionicons name="lock-closed" size={28} color={Colors.primary} />
+          </View>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.subtitle}>{subtitle}</Text>
+
+          <Animated.View style={{ transform: [{ translateX: shakeAnimation }] }}>
+            <PinPad
+              value={pin}
+              onChange={(value) => {
+                setPin(value);
+                setError('');
+              }}
+              onComplete={handleComplete}
+              length={MERCHANT_PIN_LENGTH}
+              disabled={busy || isLocked}
+              error={!!error}
+            />
+          </Animated.View>
+
+          {isLocked && lockRemaining ? (
+            <View style={styles.lockoutContainer}>
+              <Ionicons name="time-outline" size={16} color={Colors.error} />
+              <Text style={styles.lockoutText}>
+                Too many wrong PINs. Try again in {formatCountdown(lockRemaining.minutes, lockRemaining.seconds)}
+              </Text>
+            </View>
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : null}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 400,
+    backgroundColor: Colors.background.primary,
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: `${Colors.primary}20`,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 21,
+    marginBottom: 24,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  lockoutContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: `${Colors.error}10`,
+  },
+  lockoutText: {
+    color: Colors.error,
+    fontSize: 14,
+    flexShrink: 1,
+  },
+});
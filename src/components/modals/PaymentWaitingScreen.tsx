@@ -12,30 +12,34 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import Colors from '@/constants/colors';
-import apiService, { PaymentRequest } from '@/services/api/apiService';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import { getTimeRemaining, formatCountdown } from '@/utils/timeUtils';
+import { usePaymentStatus } from '@/hooks/usePaymentStatus';
+import { formatMoney } from '@/utils/money';
+import QRCode from '@/components/ui/QRCode';
 
 interface PaymentWaitingScreenProps {
   visible: boolean;
-  amount: number;
+  amount: number; // Minor units of currency
+  currency?: string;
   customerInfo?: string;
   onCancel: () => void;
   paymentRequestId: string | null;
-  onPaymentSuccess: (payment: PaymentRequest) => void;
-  onPaymentFailure: (payment: PaymentRequest) => void;
+  paymentUrl?: string | null; // Shown as a QR code for customers who pay by scanning
+  onMerchantAccess?: () => void; // Customer display: replaces Cancel with a merchant PIN prompt
 }
 
 export default function PaymentWaitingScreen({
   visible,
   amount,
+  currency,
   customerInfo = "customer",
   onCancel,
   paymentRequestId,
-  onPaymentSuccess,
-  onPaymentFailure,
+  paymentUrl,
+  onMerchantAccess,
 }: PaymentWaitingScreenProps) {
   const [dots, setDots] = useState('');
   const [elapsed, setElapsed] = useState(0);
@@ -45,6 +49,8 @@ export default function PaymentWaitingScreen({
   const pulseAnim = new Animated.Value(1);
   const { showAlert, AlertComponent } = useStyledAlert();
   const insets = useSafeAreaInsets();
+  // Completion is handled by the owner of the request; here we only need live expiry and connection state
+  const { request: liveRequest, transport } = usePaymentStatus(paymentRequestId, visible);
 
   // Reset state when visibility changes
   useEffect(() => {
@@ -83,52 +89,12 @@ export default function PaymentWaitingScreen({
     return () => clearInterval(timer);
   }, [visible, isPolling]);
 
-  // Payment status polling
+  // Update expiry time from backend if available
   useEffect(() => {
-    if (!visible || !paymentRequestId || !isPolling) return;
-
-// Poll every 2 seconds
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await apiService.merchant.getPaymentRequests();
-        const paymentRequests: PaymentRequest[] = response.data;
-
-        // Find the current payment request
-        const currentRequest = paymentRequests.find(
-          req => req.request_id === paymentRequestId
-        );
-
-        if (!currentRequest) {
-          return;
-        }
-
-        // Update expiry time from backend if available
-        if (currentRequest.expires_at) {
-          setExpiresAt(currentRequest.expires_at);
-        }
-
-        // Check status - including CANCELLED/FAILED states
-        if (currentRequest.status === 'COMPLETED') {
-          setIsPolling(false);
-          clearInterval(pollInterval);
-          onPaymentSuccess(currentRequest);
-        } else if (currentRequest.status === 'FAILED' || currentRequest.status === 'DECLINED' || currentRequest.status === 'CANCELLED') {
-          setIsPolling(false);
-          clearInterval(pollInterval);
-          onPaymentFailure(currentRequest);
-        }
-        // If still PENDING, continue polling
-
-      } catch (error) {
-        // Continue polling on error (don't stop)
-      }
-    }, 2000); // Poll every 2 seconds
-
-    // Cleanup function
-    return () => {
-      clearInterval(pollInterval);
-    };
-  }, [visible, paymentRequestId, isPolling, onPaymentSuccess, onPaymentFailure]);
+    if (liveRequest?.expires_at) {
+      setExpiresAt(liveRequest.expires_at);
+    }
+  }, [liveRequest?.expires_at]);
 
   // Update countdown timer
   useEffect(() => {
@@ -223,6 +189,9 @@ export default function PaymentWaitingScreen({
           <Text style={styles.subtitle}>
             Waiting for customer response{dots}
           </Text>
+          <Text style={styles.transportText}>
+            {transport === 'socket' ? 'Live updates' : 'Checking for updates'}
+          </Text>
           <View style={styles.timerContainer}>
             <Text style={styles.timerLabel}>Time Remaining:</Text>
             <Text style={[styles.timerValue, timeRemaining.minutes < 1 && styles.timerCritical]}>
@@ -234,18 +203,27 @@ export default function PaymentWaitingScreen({
         {/* Amount Display */}
         <View style={styles.amountSection}>
           <Text style={styles.amountLabel}>Amount Requested</Text>
-          <Text style={styles.amountValue}>${amount.toFixed(2)}</Text>
+          <Text style={styles.amountValue}>{formatMoney(amount, currency)}</Text>
         </View>
 
         {/* Main Message */}
         <View style={styles.messageSection}>
-          <View style={styles.messageCard}>
-            <Ionicons name="phone-portrait" size={24} color={Colors.primary} />
-            <Text style={styles.messageText}>
-              Accept the payment request from your{' '}
-              <Text style={styles.appName}>FacePe</Text> application
-            </Text>
-          </View>
+          {paymentUrl ? (
+            <View style={styles.qrCard}>
+              <QRCode value={paymentUrl} size={220} />
+              <Text style={styles.qrText}>
+                Scan with the <Text style={styles.appName}>FacePe</Text> app to pay
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.messageCard}>
+              <Ionicons name="phone-portrait" size={24} color={Colors.primary} />
+              <Text style={styles.messageText}>
+                Accept the payment request from your{' '}
+                <Text style={styles.appName}>FacePe</Text> application
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Status Indicator */}
@@ -274,13 +252,20 @@ export default function PaymentWaitingScreen({
         {/* Footer Actions */}
         <View style={[styles.footer, { paddingBottom: Math.max(insets.bottom, 16) }]}>
           <View style={styles.actionsSection}>
-            <TouchableOpacity 
-              style={styles.cancelButton}
-              onPress={handleCancelTransaction}
-            >
-              <Ionicons name="close-circle" size={20} color={Colors.error} />
-              <Text style={styles.cancelButtonText}>Cancel Transaction</Text>
-            </TouchableOpacity>
+            {onMerchantAccess ? (
+              <TouchableOpacity style={styles.merchantButton} onPress={onMerchantAccess}>
+                <Ionicons name="lock-closed" size={16} color={Colors.text.white} />
+                <Text style={styles.merchantButtonText}>Merchant</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity 
+                style={styles.cancelButton}
+                onPress={handleCancelTransaction}
+              >
+                <Ionicons name="close-circle" size={20} color={Colors.error} />
+                <Text style={styles.cancelButtonText}>Cancel Transaction</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </LinearGradient>
@@ -348,6 +333,13 @@ const styles = StyleSheet.create({
     opacity: 0.9,
     minHeight: 24, // Prevent layout shift from dots
   },
+  transportText: {
+    fontSize: 12,
+    color: Colors.text.white,
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 4,
+  },
   timerContainer: {
     alignItems: 'center',
     marginTop: 16,
@@ -422,6 +414,26 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border.light,
   },
+  qrCard: {
+    backgroundColor: Colors.background.primary,
+    borderRadius: 16,
+    padding: 20,
+    alignItems: 'center',
+    gap: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+  },
+  qrText: {
+    fontSize: 16,
+    color: Colors.text.primary,
+    lineHeight: 24,
+    textAlign: 'center',
+  },
   messageText: {
     fontSize: 16,
     color: Colors.text.primary,
@@ -444,6 +456,22 @@ const styles = StyleSheet.create({
   actionsSection: {
     marginBottom: 12,
   },
+  merchantButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  merchantButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.white,
+  },
   cancelButton: {
     flexDirection: 'row',
     alignItems: 'center',
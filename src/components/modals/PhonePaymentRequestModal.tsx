@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FilterModal from '@/components/ui/FilterModal';
+import Colors from '@/constants/colors';
+import { formatPhoneInput, isCompletePhoneNumber, toE164PhoneNumber } from '@/utils/phone';
+
+interface PhonePaymentRequestModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (phoneNumber: string) => void; // E.164
+  amountLabel: string;
+  loading: boolean;
+}
+
+const PhonePaymentRequestModal: React.FC<PhonePaymentRequestModalProps> = ({
+  visible,
+  onClose,
+  onSubmit,
+  amountLabel,
+  loading,
+}) => {
+  const [phoneNumber, setPhoneNumber] = useState('');
+
+  // Never prefill the previous customer's number
+  useEffect(() => {
+    if (visible) setPhoneNumber('');
+  }, [visible]);
+
+  const canSubmit = isCompletePhoneNumber(phoneNumber) && !loading;
+
+  return (
+    <FilterModal visible={visible} onClose={onClose} title="Send to Phone">
+      <View style={styles.section}>
+        <Text style={styles.caption}>
+          The customer gets a request for {amountLabel} in their FacePe app on this number.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Customer phone number</Text>
+        <View style={styles.inputContainer}>
+          <Text style={styles.countryCode}>+1</Text>
+          <TextInput
+            style={styles.input}
+            value={phoneNumber}
+            onChangeText={(text) => setPhoneNumber(formatPhoneInput(text))}
+            placeholder="(555) 123-4567"
+            placeholderTextColor={Colors.text.muted}
+            keyboardType="phone-pad"
+            autoFocus
+            editable={!loading}
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.sendButton, !canSubmit && styles.sendButtonDisabled]}
+        onPress={() => onSubmit(toE164PhoneNumber(phoneNumber))}
+        disabled={!canSubmit}
+      >
+        {loading ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <>
+            <Ionicons name="send" size={18} color="#FFFFFF" />
+            <Text style={styles.sendButtonText}>Send Request</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  caption: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+    lineHeight: 20,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+  },
+  countryCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+    marginRight: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text.primary,
+    paddingVertical: 14,
+  },
+  sendButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default PhonePaymentRequestModal;
@@ -4,18 +4,19 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  TextInput,
   Modal,
   Animated,
-  KeyboardAvoidingView,
-  Platform,
   ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Colors from '@/constants/colors';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/constants/api';
+import { ERROR_MESSAGES, PIN_CONFIG, SUCCESS_MESSAGES } from '@/constants/api';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
+import MerchantPinModal from '@/components/modals/MerchantPinModal';
+import PinPad from '@/components/ui/PinPad';
+import type { MatchCandidate } from '@/utils/matchHints';
+import { formatCountdown, getTimeRemaining } from '@/utils/timeUtils';
 
 interface PinVerificationModalProps {
   visible: boolean;
@@ -23,9 +24,21 @@ interface PinVerificationModalProps {
   onVerify: (pin: string) => Promise<boolean>;
   onCancel: () => void; // New prop for cancelling the entire payment
   loading: boolean;
-  message?: string;
+  message?: string; // Why the PIN is needed, from the outcome that asked for it
+  pinError?: string; // Why the last PIN was not accepted, e.g. a wrong PIN or a service error
+  attemptsRemaining?: number; // From the last rejection, unknown until the first wrong PIN
+  lockedUntil?: string; // Keypad stays locked until this ISO time
+  shuffleKeys?: boolean; // Randomize the keypad layout for each attempt
+  pinLength?: number; // Digits in the customer's PIN, from the verify-face response
+  candidates?: MatchCandidate[]; // Shown before the keypad so the customer can pick their own account
+  onSelectCandidate?: (userId?: string) => void; // No id when the customer does not see themselves
+  startInCustomerMode?: boolean; // Counter devices already face the customer
+  requireMerchantPin?: boolean; // Customer display is on, so leaving customer mode takes the merchant PIN
 }
 
+const getLockRemaining = (lockedUntil?: string) =>
+  lockedUntil ? getTimeRemaining(lockedUntil) : null;
+
 export default function PinVerificationModal({
   visible,
   onClose,
@@ -33,55 +46,67 @@ export default function PinVerificationModal({
   onCancel,
   loading,
   message = ERROR_MESSAGES.MULTIPLE_FACES_DETECTED,
+  pinError,
+  attemptsRemaining,
+  lockedUntil,
+  shuffleKeys = false,
+  pinLength = PIN_CONFIG.DEFAULT_LENGTH,
+  candidates = [],
+  onSelectCandidate,
+  startInCustomerMode = false,
+  requireMerchantPin = false,
 }: PinVerificationModalProps) {
-  const [pin, setPin] = useState(['', '', '', '']);
+  const [pin, setPin] = useState('');
   const [error, setError] = useState('');
-  const inputRefs = useRef<(TextInput | null)[]>([]);
+  // Device handed to the customer: merchant controls and the sale screen stay hidden until the PIN is submitted
+  const [isCustomerMode, setIsCustomerMode] = useState(false);
+  const [isMerchantPinVisible, setIsMerchantPinVisible] = useState(false);
   const shakeAnimation = useRef(new Animated.Value(0)).current;
   const { showAlert, AlertComponent } = useStyledAlert();
+  const [lockRemaining, setLockRemaining] = useState(() => getLockRemaining(lockedUntil));
+  const isLocked = !!lockRemaining && !lockRemaining.expired;
+  const isPickingCandidate = candidates.length > 0 && !!onSelectCandidate;
+  // The last attempt's reason stays up until the customer starts typing again
+  const shownError = error || (pin ? '' : pinError || '');
+
+  // Tick the lockout countdown, then hand the keypad back to the customer
+  useEffect(() => {
+    setLockRemaining(getLockRemaining(lockedUntil));
+    if (!lockedUntil) return;
+
+    const interval = setInterval(() => {
+      const remaining = getTimeRemaining(lockedUntil);
+      setLockRemaining(remaining);
+      if (remaining.expired) {
+        clearInterval(interval);
+        setError('');
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
 
   useEffect(() => {
     if (visible) {
       // Reset pin when modal opens
-      setPin(['', '', '', '']);
+      setPin('');
       setError('');
-      // Focus first input after a short delay
-      setTimeout(() => {
-        inputRefs.current[0]?.focus();
-      }, 100);
+      setIsCustomerMode(startInCustomerMode);
+      setIsMerchantPinVisible(false);
     }
-  }, [visible]);
-
-  const handlePinChange = (value: string, index: number) => {
-    if (value.length > 1) return; // Prevent multiple characters
+  }, [visible, startInCustomerMode]);
 
-    const newPin = [...pin];
-    newPin[index] = value;
-    setPin(newPin);
+  const handlePinChange = (value: string) => {
+    setPin(value);
     setError(''); // Clear error when user starts typing
-
-    // Auto-focus next input
-    if (value && index < 3) {
-      inputRefs.current[index + 1]?.focus();
-    }
-
-    // Auto-verify when PIN is complete
-    if (newPin.every(digit => digit !== '') && value) {
-      handleVerify(newPin.join(''));
-    }
-  };
-
-  const handleKeyPress = (key: string, index: number) => {
-    if (key === 'Backspace' && !pin[index] && index > 0) {
-      inputRefs.current[index - 1]?.focus();
-    }
   };
 
   const handleVerify = async (pinCode?: string) => {
-    const fullPin = pinCode || pin.join('');
+    const fullPin = pinCode || pin;
+    if (isLocked) return;
 
-    if (fullPin.length !== 4) {
-      setError('Please enter your complete 4-digit PIN');
+    if (fullPin.length !== pinLength) {
+      setError(`Please enter your complete ${pinLength}-digit PIN`);
       shakePin();
       return;
     }
@@ -91,21 +116,21 @@ export default function PinVerificationModal({
 
       if (success) {
         // PIN verified successfully
-        setPin(['', '', '', '']);
+        setPin('');
         setError('');
         onClose();
       } else {
-        // PIN verification failed
-        setError(ERROR_MESSAGES.INVALID_PIN);
+        // The owner passes the reason in as pinError
         shakePin();
-        setPin(['', '', '', '']);
-        inputRefs.current[0]?.focus();
+        setPin('');
       }
     } catch (error) {
       setError(ERROR_MESSAGES.PIN_VERIFICATION_FAILED);
       shakePin();
-      setPin(['', '', '', '']);
-      inputRefs.current[0]?.focus();
+      setPin('');
+    } finally {
+      // The outcome is for the merchant to act on, so hand the screen back
+      setIsCustomerMode(startInCustomerMode);
     }
   };
 
@@ -140,12 +165,10 @@ export default function PinVerificationModal({
       visible={visible}
       transparent
       animationType="fade"
-      onRequestClose={onClose}
+      // The back button would cancel the sale, which is not the customer's call
+      onRequestClose={isCustomerMode ? () => {} : onClose}
     >
-      <KeyboardAvoidingView
-        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-        style={styles.modalOverlay}
-      >
+      <View style={[styles.modalOverlay, isCustomerMode && styles.customerOverlay]}>
         <View style={styles.modalContainer}>
           <View style={[styles.modalContent, loading && styles.modalContentLoading]}>
             {/* Header */}
@@ -153,88 +176,154 @@ export default function PinVerificationModal({
               <View style={styles.iconContainer}>
                 <Ionicons name="shield-checkmark" size={32} color={Colors.primary} />
               </View>
-              <Text style={styles.title}>PIN Verification Required</Text>
-              <Text style={styles.subtitle}>{message}</Text>
+              <Text style={styles.title}>{isCustomerMode ? 'Confirm Your Payment' : 'PIN Verification Required'}</Text>
+              <Text style={styles.subtitle}>
+                {isPickingCandidate
+                  ? 'Several customers look alike. Tap your own hint, then enter your PIN.'
+                  : isCustomerMode
+                    ? 'Enter your PIN on the keypad below. Your digits are not shown.'
+                    : message}
+              </Text>
             </View>
 
-            {/* PIN Input */}
-            <View style={styles.pinContainer}>
-              <Text style={styles.pinLabel}>Enter your 4-digit PIN</Text>
-              <Animated.View
-                style={[
-                  styles.pinInputContainer,
-                  { transform: [{ translateX: shakeAnimation }] }
-                ]}
-              >
-                {pin.map((digit, index) => (
-                  <TextInput
-                    key={index}
-                    ref={(ref) => { inputRefs.current[index] = ref; }}
-                    style={[
-                      styles.pinInput,
-                      error ? styles.pinInputError : null,
-                      digit ? styles.pinInputFilled : null,
-                    ]}
-                    value={digit}
-                    onChangeText={(value) => handlePinChange(value, index)}
-                    onKeyPress={({ nativeEvent }) => handleKeyPress(nativeEvent.key, index)}
-                    keyboardType="numeric"
-                    maxLength={1}
-                    secureTextEntry
-                    selectTextOnFocus
-                    editable={!loading}
-                  />
+            {/* Candidate hints, then PIN Input */}
+            {isPickingCandidate ? (
+              <View style={styles.candidateContainer}>
+                <Text style={styles.pinLabel}>Which of these is you?</Text>
+                {candidates.map(candidate => (
+                  <TouchableOpacity
+                    key={candidate.userId}
+                    style={styles.candidateRow}
+                    onPress={() => onSelectCandidate?.(candidate.userId)}
+                    disabled={loading}
+                  >
+                    <View style={styles.candidateAvatar}>
+                      <Text style={styles.candidateInitials}>{candidate.initials || '?'}</Text>
+                    </View>
+                    <Text style={styles.candidateHint}>
+                      {candidate.phoneLastTwo ? `Phone ending in ••${candidate.phoneLastTwo}` : 'No phone on file'}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color={Colors.text.muted} />
+                  </TouchableOpacity>
                 ))}
-              </Animated.View>
+                <TouchableOpacity style={styles.candidateSkipButton} onPress={() => onSelectCandidate?.()}>
+                  <Text style={styles.candidateSkipText}>None of these</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.pinContainer}>
+                <Text style={styles.pinLabel}>Enter your {pinLength}-digit PIN</Text>
+                <Animated.View style={{ transform: [{ translateX: shakeAnimation }] }}>
+                  <PinPad
+                    value={pin}
+                    onChange={handlePinChange}
+                    onComplete={handleVerify}
+                    length={pinLength}
+                    shuffle={shuffleKeys}
+                    disabled={loading || isLocked}
+                    error={!!shownError}
+                  />
+                </Animated.View>
 
-              {error ? (
-                <Text style={styles.errorText}>{error}</Text>
-              ) : null}
-            </View>
+                {isLocked && lockRemaining ? (
+                  <View style={styles.lockoutContainer}>
+                    <Ionicons name="time-outline" size={16} color={Colors.error} />
+                    <Text style={styles.lockoutText}>
+                      {ERROR_MESSAGES.PIN_LOCKED} Try again in {formatCountdown(lockRemaining.minutes, lockRemaining.seconds)}
+                    </Text>
+                  </View>
+                ) : shownError ? (
+                  <Text style={styles.errorText}>{shownError}</Text>
+                ) : null}
+
+                {!isLocked && attemptsRemaining !== undefined && attemptsRemaining > 0 ? (
+                  <Text style={[styles.attemptsText, attemptsRemaining === 1 && styles.attemptsTextLast]}>
+                    {attemptsRemaining === 1
+                      ? '1 attempt left. Another wrong PIN cancels this payment.'
+                      : `${attemptsRemaining} attempts left`}
+                  </Text>
+                ) : null}
+              </View>
+            )}
 
             {/* Actions */}
-            <View style={styles.actions}>
-              <TouchableOpacity
-                style={styles.forgotPinButton}
-                onPress={handleForgotPin}
-                disabled={loading}
-              >
-                <Text style={styles.forgotPinText}>Forgot PIN?</Text>
-              </TouchableOpacity>
+            {isCustomerMode ? (
+              <View style={styles.actions}>
+                {loading && (
+                  <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={Colors.primary} />
+                    <Text style={styles.loadingText}>Verifying PIN...</Text>
+                  </View>
+                )}
 
-              {/* Loading Animation when processing */}
-              {loading && (
-                <View style={styles.loadingContainer}>
-                  <ActivityIndicator size="large" color={Colors.primary} />
-                  <Text style={styles.loadingText}>Verifying PIN...</Text>
-                </View>
-              )}
+                {/* Long press so a stray tap from the customer does not bring back the sale screen */}
+                <TouchableOpacity
+                  style={styles.returnButton}
+                  onLongPress={() => (requireMerchantPin ? setIsMerchantPinVisible(true) : setIsCustomerMode(false))}
+                  delayLongPress={800}
+                >
+                  <Ionicons name="person-outline" size={16} color={Colors.text.secondary} />
+                  <Text style={styles.returnButtonText}>Merchant: press and hold to return</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.forgotPinButton}
+                  onPress={handleForgotPin}
+                  disabled={loading}
+                >
+                  <Text style={styles.forgotPinText}>Forgot PIN?</Text>
+                </TouchableOpacity>
 
-              {/* Cancel Button */}
-              <View style={styles.buttonContainer}>
+                {/* Hide the sale and merchant controls while the customer holds the device */}
                 <TouchableOpacity
-                  style={[styles.button, styles.cancelButton]}
+                  style={[styles.button, styles.handoffButton]}
                   onPress={() => {
-                    showAlert(
-                      'Cancel Payment',
-                      'Are you sure you want to cancel this payment request?',
-                      [
-                        { text: 'No', style: 'cancel' },
-                        {
-                          text: 'Yes, Cancel',
-                          style: 'destructive',
-                          onPress: onCancel
-                        },
-                      ],
-                      'warning'
-                    );
+                    setPin('');
+                    setError('');
+                    setIsCustomerMode(true);
                   }}
-                // Don't disable during loading - allow cancellation anytime
+                  disabled={loading || isLocked}
                 >
-                  <Text style={styles.cancelButtonText}>Cancel Payment</Text>
+                  <Ionicons name="phone-portrait-outline" size={18} color={Colors.text.white} />
+                  <Text style={styles.handoffButtonText}>Hand to Customer</Text>
                 </TouchableOpacity>
+
+                {/* Loading Animation when processing */}
+                {loading && (
+                  <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={Colors.primary} />
+                    <Text style={styles.loadingText}>Verifying PIN...</Text>
+                  </View>
+                )}
+
+                {/* Cancel Button */}
+                <View style={styles.buttonContainer}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.cancelButton]}
+                    onPress={() => {
+                      showAlert(
+                        'Cancel Payment',
+                        'Are you sure you want to cancel this payment request?',
+                        [
+                          { text: 'No', style: 'cancel' },
+                          {
+                            text: 'Yes, Cancel',
+                            style: 'destructive',
+                            onPress: onCancel
+                          },
+                        ],
+                        'warning'
+                      );
+                    }}
+                  // Don't disable during loading - allow cancellation anytime
+                  >
+                    <Text style={styles.cancelButtonText}>Cancel Payment</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
-            </View>
+            )}
 
             {/* Security Notice */}
             <View style={styles.securityNotice}>
@@ -245,7 +334,17 @@ export default function PinVerificationModal({
             </View>
           </View>
         </View>
-      </KeyboardAvoidingView>
+      </View>
+
+      <MerchantPinModal
+        visible={isMerchantPinVisible}
+        mode="verify"
+        onClose={() => setIsMerchantPinVisible(false)}
+        onSuccess={() => {
+          setIsMerchantPinVisible(false);
+          setIsCustomerMode(false);
+        }}
+      />
 
       {/* Styled Alert Component */}
       <AlertComponent />
@@ -261,6 +360,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  customerOverlay: {
+    backgroundColor: Colors.background.primary,
+  },
   modalContainer: {
     width: '100%',
     maxWidth: 400,
@@ -281,7 +383,7 @@ const styles = StyleSheet.create({
   },
   header: {
     alignItems: 'center',
-    marginBottom: 32,
+    marginBottom: 20,
   },
   iconContainer: {
     width: 64,
@@ -307,7 +409,7 @@ const styles = StyleSheet.create({
   },
   pinContainer: {
     alignItems: 'center',
-    marginBottom: 32,
+    marginBottom: 24,
   },
   pinLabel: {
     fontSize: 16,
@@ -315,30 +417,49 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     fontWeight: '500',
   },
-  pinInputContainer: {
+  candidateContainer: {
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  candidateRow: {
+    width: '100%',
     flexDirection: 'row',
+    alignItems: 'center',
     gap: 12,
+    padding: 12,
     marginBottom: 8,
-  },
-  pinInput: {
-    width: 56,
-    height: 56,
     borderRadius: 12,
-    borderWidth: 2,
+    borderWidth: 1,
     borderColor: Colors.border.light,
     backgroundColor: Colors.background.secondary,
-    textAlign: 'center',
-    fontSize: 24,
+  },
+  candidateAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: `${Colors.primary}20`,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  candidateInitials: {
+    fontSize: 16,
     fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  candidateHint: {
+    flex: 1,
+    fontSize: 15,
     color: Colors.text.primary,
   },
-  pinInputFilled: {
-    borderColor: Colors.primary,
-    backgroundColor: `${Colors.primary}10`,
+  candidateSkipButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
   },
-  pinInputError: {
-    borderColor: Colors.error,
-    backgroundColor: `${Colors.error}10`,
+  candidateSkipText: {
+    color: Colors.primary,
+    fontSize: 15,
+    fontWeight: '500',
   },
   errorText: {
     color: Colors.error,
@@ -346,6 +467,31 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  lockoutContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: `${Colors.error}10`,
+  },
+  lockoutText: {
+    color: Colors.error,
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  attemptsText: {
+    color: Colors.text.secondary,
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  attemptsTextLast: {
+    color: Colors.warning,
+    fontWeight: '600',
+  },
   actions: {
     width: '100%',
     alignItems: 'center',
@@ -372,6 +518,28 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  handoffButton: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#6B46C1',
+    marginBottom: 12,
+  },
+  handoffButtonText: {
+    color: Colors.text.white,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  returnButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  returnButtonText: {
+    color: Colors.text.secondary,
+    fontSize: 14,
+  },
   cancelButton: {
     backgroundColor: Colors.background.secondary,
     borderWidth: 1,
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FilterModal from '@/components/ui/FilterModal';
+import Colors from '@/constants/colors';
+import { useSettings } from '@/context/SettingsContext';
+import { getOrigin } from '@/utils/chargeIntent';
+
+interface PosIntegrationsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (saved: boolean) => void;
+}
+
+const PosIntegrationsModal: React.FC<PosIntegrationsModalProps> = ({ visible, onClose, onSaved }) => {
+  const { settings, updateSettings } = useSettings();
+  const [origins, setOrigins] = useState<string[]>([]);
+  const [originText, setOriginText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved values every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setOrigins(settings.chargeCallbackOrigins);
+    setOriginText('');
+  }, [visible, settings.chargeCallbackOrigins]);
+
+  const newOrigin = getOrigin(originText);
+  const canAdd = !!newOrigin && !origins.includes(newOrigin);
+
+  const handleAdd = () => {
+    if (!newOrigin || !canAdd) return;
+    setOrigins(current => [...current, newOrigin]);
+    setOriginText('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await updateSettings({ chargeCallbackOrigins: origins });
+    setSaving(false);
+    onSaved?.(saved);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <FilterModal visible={visible} onClose={onClose} title="POS Integrations">
+      <View style={styles.section}>
+        <Text style={styles.caption}>
+          Other apps can start a sale with fpmerchant://charge?amount=1250&amp;currency=USD&amp;ref=ORDER42&amp;callback=...
+          The result is only sent back to callbacks on the origins below.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.title}>Allowed callback origins</Text>
+        {origins.length === 0 ? (
+          <Text style={styles.caption}>None yet. Charges without a callback still work.</Text>
+        ) : (
+          origins.map(origin => (
+            <View key={origin} style={styles.originRow}>
+              <Text style={styles.originText} numberOfLines={1}>{origin}</Text>
+              <TouchableOpacity
+                onPress={() => setOrigins(current => current.filter(item => item !== origin))}
+                accessibilityLabel={`Remove ${origin}`}
+              >
+                <Ionicons name="close-circle" size={22} color={Colors.text.muted} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={originText}
+            onChangeText={setOriginText}
+            onSubmitEditing={handleAdd}
+            placeholder="https://pos.example.com"
+            placeholderTextColor={Colors.text.muted}
+            keyboardType="url"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, !canAdd && styles.buttonDisabled]}
+            onPress={handleAdd}
+            disabled={!canAdd}
+          >
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, saving && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+      </TouchableOpacity>
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  caption: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    lineHeight: 19,
+  },
+  originRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  originText: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text.primary,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text.primary,
+  },
+  addButton: {
+    width: 52,
+    borderRadius: 12,
+    backgroundColor: '#6B46C1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default PosIntegrationsModal;
@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch, ActivityIndicator } from 'react-native';
+import FilterModal from '@/components/ui/FilterModal';
+import Colors from '@/constants/colors';
+import { PRINTER_CONFIG } from '@/constants/settings';
+import { useSettings } from '@/context/SettingsContext';
+import { discoverPrinters, printTestPage } from '@/services/printing/printerService';
+import { PrinterConfig } from '@/services/storage/storageService';
+
+interface PrinterSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (saved: boolean) => void;
+}
+
+const IPV4_REGEX = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+const isValidHost = (host: string): boolean => {
+  const match = host.match(IPV4_REGEX);
+  return !!match && match.slice(1).every(part => Number(part) <= 255);
+};
+
+const PrinterSettingsModal: React.FC<PrinterSettingsModalProps> = ({ visible, onClose, onSaved }) => {
+  const { settings, updateSettings } = useSettings();
+  const [host, setHost] = useState('');
+  const [portText, setPortText] = useState('');
+  const [paperWidth, setPaperWidth] = useState<PrinterConfig['paperWidth']>(58);
+  const [autoPrint, setAutoPrint] = useState(false);
+  const [discovered, setDiscovered] = useState<string[] | null>(null);
+  const [busyAction, setBusyAction] = useState<'discover' | 'test' | 'save' | null>(null);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+
+  // Start from the saved values every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setHost(settings.printer?.host || '');
+    setPortText((settings.printer?.port || PRINTER_CONFIG.DEFAULT_PORT).toString());
+    setPaperWidth(settings.printer?.paperWidth || 58);
+    setAutoPrint(settings.autoPrintReceipts);
+    setDiscovered(null);
+    setStatus(null);
+  }, [visible, settings.printer, settings.autoPrintReceipts]);
+
+  const port = Number(portText);
+  const isValid = isValidHost(host.trim()) && Number.isInteger(port) && port > 0 && port <= 65535;
+  const printer: PrinterConfig = { host: host.trim(), port, paperWidth };
+
+  const handleDiscover = async () => {
+    setBusyAction('discover');
+    setStatus(null);
+    try {
+      const hosts = await discoverPrinters(isValid ? port : PRINTER_CONFIG.DEFAULT_PORT);
+      setDiscovered(hosts);
+      if (hosts.length === 0) {
+        setStatus({ message: 'No printers found. Check the printer is on the same Wi-Fi network or enter its IP address.', error: true });
+      }
+    } catch {
+      setStatus({ message: 'Could not scan the network. Enter the printer IP address instead.', error: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleTestPrint = async () => {
+    setBusyAction('test');
+    setStatus(null);
+    try {
+      await printTestPage(printer);
+      setStatus({ message: 'Test page sent to the printer', error: false });
+    } catch {
+      setStatus({ message: `Could not reach the printer at ${printer.host}:${printer.port}`, error: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const save = async (changes: { printer: PrinterConfig | null; autoPrintReceipts: boolean }) => {
+    setBusyAction('save');
+    const saved = await updateSettings(changes);
+    setBusyAction(null);
+    onSaved?.(saved);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <FilterModal visible={visible} onClose={onClose} title="Receipt Printer">
+      <View style={styles.section}>
+        <Text style={styles.title}>Printer address</Text>
+        <View style={styles.addressRow}>
+          <TextInput
+            style={[styles.input, styles.hostInput]}
+            value={host}
+            onChangeText={setHost}
+            placeholder="192.168.1.50"
+            placeholderTextColor={Colors.text.muted}
+            keyboardType="decimal-pad"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={[styles.input, styles.portInput]}
+            value={portText}
+            onChangeText={(text) => setPortText(text.replace(/\D/g, ''))}
+            placeholder={PRINTER_CONFIG.DEFAULT_PORT.toString()}
+            placeholderTextColor={Colors.text.muted}
+            keyboardType="number-pad"
+            maxLength={5}
+          />
+        </View>
+
+        <TouchableOpacity style={styles.linkButton} onPress={handleDiscover} disabled={busyAction !== null}>
+          {busyAction === 'discover' ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Text style={styles.linkButtonText}>Find printers on this network</Text>
+          )}
+        </TouchableOpacity>
+
+        {!!discovered?.length && (
+          <View style={styles.chipGroup}>
+            {discovered.map(found => (
+              <TouchableOpacity
+                key={found}
+                style={[styles.chip, host.trim() === found && styles.chipActive]}
+                onPress={() => setHost(found)}
+              >
+                <Text style={[styles.chipText, host.trim() === found && styles.chipTextActive]}>{found}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.title}>Paper width</Text>
+        <View style={styles.chipGroup}>
+          {([58, 80] as const).map(width => (
+            <TouchableOpacity
+              key={width}
+              style={[styles.chip, paperWidth === width && styles.chipActive]}
+              onPress={() => setPaperWidth(width)}
+            >
+              <Text style={[styles.chipText, paperWidth === width && styles.chipTextActive]}>{width} mm</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.toggleRow}>
+          <View style={styles.toggleInfo}>
+            <Text style={styles.title}>Print automatically</Text>
+            <Text style={styles.caption}>Print a receipt as soon as a payment completes</Text>
+          </View>
+          <Switch
+            value={autoPrint}
+            onValueChange={setAutoPrint}
+            trackColor={{ false: Colors.border.medium, true: Colors.primaryLight }}
+            thumbColor={autoPrint ? Colors.primary : Colors.background.primary}
+          />
+        </View>
+      </View>
+
+      {status && (
+        <Text style={[styles.statusText, status.error && styles.statusTextError]}>{status.message}</Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.secondaryButton, (!isValid || busyAction !== null) && styles.buttonDisabled]}
+        onPress={handleTestPrint}
+        disabled={!isValid || busyAction !== null}
+      >
+        {busyAction === 'test' ? (
+          <ActivityIndicator color="#6B46C1" />
+        ) : (
+          <Text style={styles.secondaryButtonText}>Print Test Page</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.saveButton, (!isValid || busyAction !== null) && styles.buttonDisabled]}
+        onPress={() => save({ printer, autoPrintReceipts: autoPrint })}
+        disabled={!isValid || busyAction !== null}
+      >
+        <Text style={styles.saveButtonText}>{busyAction === 'save' ? 'Saving...' : 'Save'}</Text>
+      </TouchableOpacity>
+
+      {settings.printer && (
+        <TouchableOpacity
+          style={styles.removeButton}
+          onPress={() => save({ printer: null, autoPrintReceipts: false })}
+          disabled={busyAction !== null}
+        >
+          <Text style={styles.removeButtonText}>Remove Printer</Text>
+        </TouchableOpacity>
+      )}
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  caption: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    marginTop: 4,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text.primary,
+  },
+  hostInput: {
+    flex: 1,
+  },
+  portInput: {
+    width: 96,
+    textAlign: 'center',
+  },
+  linkButton: {
+    paddingVertical: 12,
+    alignItems: 'flex-start',
+  },
+  linkButtonText: {
+    color: Colors.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  chipGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#6B46C1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  statusText: {
+    fontSize: 14,
+    color: Colors.success,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  statusTextError: {
+    color: Colors.error,
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6B46C1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  removeButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    color: Colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default PrinterSettingsModal;
@@ -0,0 +1,367 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FilterModal from '@/components/ui/FilterModal';
+import QRCode from '@/components/ui/QRCode';
+import Colors from '@/constants/colors';
+import { useSettings } from '@/context/SettingsContext';
+import { ReceiptChannel } from '@/services/api/apiService';
+import { printReceipt } from '@/services/printing/printerService';
+import { getReceiptUrl, sendReceipt, shareReceiptPdf, shareReceiptText } from '@/services/receipts/receiptService';
+import { getUserFriendlyErrorMessage } from '@/utils/errorHandler';
+import { createIdempotencyKey } from '@/utils/idempotency';
+import { formatMajorAmount } from '@/utils/money';
+import { formatPhoneInput, isCompletePhoneNumber, toE164PhoneNumber } from '@/utils/phone';
+import { Receipt } from '@/utils/receipt';
+
+interface ReceiptModalProps {
+  receipt: Receipt | null; // Shown while set
+  onClose: () => void;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ReceiptModal: React.FC<ReceiptModalProps> = ({ receipt, onClose }) => {
+  const { settings } = useSettings();
+  const [receiptUrl, setReceiptUrl] = useState<string | null>(null);
+  const [isLoadingUrl, setIsLoadingUrl] = useState(false);
+  const [channel, setChannel] = useState<ReceiptChannel>('sms');
+  const [destination, setDestination] = useState('');
+  const [busyAction, setBusyAction] = useState<'text' | 'pdf' | 'print' | 'send' | null>(null);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+  // Resending to the same contact after a dropped connection must not deliver the receipt twice
+  const sendKeyRef = useRef(createIdempotencyKey());
+  const reference = receipt?.reference;
+
+  useEffect(() => {
+    setReceiptUrl(null);
+    setDestination('');
+    setStatus(null);
+    if (!reference) return;
+
+    let cancelled = false;
+    setIsLoadingUrl(true);
+    getReceiptUrl(reference).then(url => {
+      if (cancelled) return;
+      setReceiptUrl(url);
+      setIsLoadingUrl(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reference]);
+
+  useEffect(() => {
+    sendKeyRef.current = createIdempotencyKey();
+  }, [reference, channel, destination]);
+
+  if (!receipt) return null;
+
+  const isDestinationValid = channel === 'sms'
+    ? isCompletePhoneNumber(destination)
+    : EMAIL_REGEX.test(destination.trim());
+
+  const runAction = async (action: 'text' | 'pdf' | 'send', task: () => Promise<void>, failureMessage: string) => {
+    setBusyAction(action);
+    setStatus(null);
+    try {
+      await task();
+    } catch (error) {
+      setStatus({ message: getUserFriendlyErrorMessage(error, failureMessage), error: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSend = () =>
+    runAction('send', async () => {
+      const to = channel === 'sms' ? toE164PhoneNumber(destination) : destination.trim();
+      await sendReceipt(receipt, channel, to, sendKeyRef.current);
+      setDestination('');
+      setStatus({ message: `Receipt sent to ${channel === 'sms' ? destination : to}`, error: false });
+    }, 'Failed to send the receipt. Please try again.');
+
+  // Socket errors would read as internet problems through the API error messages, so printing reports its own
+  const handlePrint = async () => {
+    if (!settings.printer) return;
+    setBusyAction('print');
+    setStatus(null);
+    try {
+      await printReceipt(settings.printer, receipt, receiptUrl);
+      setStatus({ message: 'Receipt sent to the printer', error: false });
+    } catch {
+      setStatus({ message: 'Could not reach the receipt printer. Check it is on and connected to this network.', error: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleChannelChange = (next: ReceiptChannel) => {
+    setChannel(next);
+    setDestination('');
+    setStatus(null);
+  };
+
+  return (
+    <FilterModal visible onClose={onClose} title="Receipt">
+      {/* Summary */}
+      <View style={styles.summary}>
+        <Text style={styles.merchantName}>{receipt.merchantName}</Text>
+        <Text style={styles.amount}>{formatMajorAmount(receipt.amount, receipt.currency)}</Text>
+        {!!receipt.description && <Text style={styles.caption}>{receipt.description}</Text>}
+        <Text style={styles.reference}>Ref {receipt.reference}</Text>
+      </View>
+
+      {/* Hosted copy */}
+      <View style={styles.qrContainer}>
+        {isLoadingUrl ? (
+          <ActivityIndicator color={Colors.primary} />
+        ) : receiptUrl ? (
+          <>
+            <QRCode value={receiptUrl} size={180} />
+            <Text style={styles.caption}>Customer scans to open the receipt</Text>
+          </>
+        ) : (
+          <Text style={styles.caption}>The online copy is not available yet. Share or send it below.</Text>
+        )}
+      </View>
+
+      {/* Share */}
+      <View style={styles.shareRow}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => runAction('text', () => shareReceiptText(receipt, receiptUrl), 'Failed to share the receipt.')}
+          disabled={busyAction !== null}
+        >
+          {busyAction === 'text' ? (
+            <ActivityIndicator color="#6B46C1" />
+          ) : (
+            <>
+              <Ionicons name="share-outline" size={18} color="#6B46C1" />
+              <Text style={styles.secondaryButtonText}>Share</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => runAction('pdf', () => shareReceiptPdf(receipt, receiptUrl), 'Failed to create the PDF receipt.')}
+          disabled={busyAction !== null}
+        >
+          {busyAction === 'pdf' ? (
+            <ActivityIndicator color="#6B46C1" />
+          ) : (
+            <>
+              <Ionicons name="document-text-outline" size={18} color="#6B46C1" />
+              <Text style={styles.secondaryButtonText}>PDF</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        {settings.printer && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handlePrint} disabled={busyAction !== null}>
+            {busyAction === 'print' ? (
+              <ActivityIndicator color="#6B46C1" />
+            ) : (
+              <>
+                <Ionicons name="print-outline" size={18} color="#6B46C1" />
+                <Text style={styles.secondaryButtonText}>Print</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Send to customer */}
+      <View style={styles.section}>
+        <Text style={styles.label}>Send to customer</Text>
+        <View style={styles.channelToggle}>
+          {(['sms', 'email'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.channelOption, channel === option && styles.channelOptionActive]}
+              onPress={() => handleChannelChange(option)}
+              disabled={busyAction !== null}
+            >
+              <Text style={[styles.channelOptionText, channel === option && styles.channelOptionTextActive]}>
+                {option === 'sms' ? 'SMS' : 'Email'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.inputContainer}>
+          {channel === 'sms' && <Text style={styles.countryCode}>+1</Text>}
+          <TextInput
+            style={styles.input}
+            value={destination}
+            onChangeText={(text) => setDestination(channel === 'sms' ? formatPhoneInput(text) : text)}
+            placeholder={channel === 'sms' ? '(555) 123-4567' : 'customer@example.com'}
+            placeholderTextColor={Colors.text.muted}
+            keyboardType={channel === 'sms' ? 'phone-pad' : 'email-address'}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={busyAction === null}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.sendButton, (!isDestinationValid || busyAction !== null) && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={!isDestinationValid || busyAction !== null}
+        >
+          {busyAction === 'send' ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <Ionicons name="send" size={18} color="#FFFFFF" />
+              <Text style={styles.sendButtonText}>Send Receipt</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {status && (
+          <Text style={[styles.statusText, status.error && styles.statusTextError]}>{status.message}</Text>
+        )}
+      </View>
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  summary: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  merchantName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+  },
+  amount: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginVertical: 4,
+  },
+  reference: {
+    fontSize: 12,
+    color: Colors.text.muted,
+    marginTop: 4,
+  },
+  caption: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 80,
+    marginBottom: 20,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+  },
+  secondaryButtonText: {
+    color: '#6B46C1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  channelToggle: {
+    flexDirection: 'row',
+    backgroundColor: Colors.background.overlay,
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  channelOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  channelOptionActive: {
+    backgroundColor: Colors.background.primary,
+  },
+  channelOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+  },
+  channelOptionTextActive: {
+    color: Colors.primary,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+  },
+  countryCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+    marginRight: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text.primary,
+    paddingVertical: 14,
+  },
+  sendButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  statusText: {
+    fontSize: 14,
+    color: Colors.success,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  statusTextError: {
+    color: Colors.error,
+  },
+});
+
+export default ReceiptModal;
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FilterModal from '@/components/ui/FilterModal';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/context/AuthContext';
+import apiService from '@/services/api/apiService';
+import { StaffMember, StaffRole } from '@/types';
+import { getUserFriendlyErrorMessage } from '@/utils/errorHandler';
+import { STAFF_ROLES, getRoleLabel } from '@/utils/permissions';
+
+const STAFF_PIN_LENGTH = 4;
+
+interface StaffManagementModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const StaffManagementModal: React.FC<StaffManagementModalProps> = ({ visible, onClose }) => {
+  const { activeStaff } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[] | null>(null);
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<StaffRole>('cashier');
+  const [pin, setPin] = useState('');
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<'add' | 'remove' | null>(null);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+
+  const loadStaff = async () => {
+    try {
+      const response = await apiService.merchant.getStaff();
+      setStaff(response.data);
+    } catch (error) {
+      setStaff([]);
+      setStatus({ message: getUserFriendlyErrorMessage(error, 'Could not load staff accounts.'), error: true });
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) return;
+    setStaff(null);
+    setName('');
+    setRole('cashier');
+    setPin('');
+    setConfirmRemoveId(null);
+    setStatus(null);
+    loadStaff();
+  }, [visible]);
+
+  const isValid = name.trim().length > 0 && pin.length === STAFF_PIN_LENGTH;
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+    setBusyAction('add');
+    setStatus(null);
+    try {
+      const response = await apiService.merchant.createStaff({ name: name.trim(), role, pin });
+      setStaff(current => [...(current || []), response.data]);
+      setName('');
+      setRole('cashier');
+      setPin('');
+      setStatus({ message: `${response.data.name} can now switch in with their PIN`, error: false });
+    } catch (error) {
+      setStatus({ message: getUserFriendlyErrorMessage(error, 'Could not add the staff account.'), error: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  // The first tap asks for confirmation, the second removes the account
+  const handleRemove = async (member: StaffMember) => {
+    if (confirmRemoveId !== member.id) {
+      setConfirmRemoveId(member.id);
+      return;
+    }
+
+    setBusyAction('remove');
+    setStatus(null);
+    try {
+      await apiService.merchant.deleteStaff(member.id);
+      setStaff(current => (current || []).filter(item => item.id !== member.id));
+      setStatus({ message: `${member.name} was removed`, error: false });
+    } catch (error) {
+      setStatus({ message: getUserFriendlyErrorMessage(error, 'Could not remove the staff account.'), error: true });
+    } finally {
+      setConfirmRemoveId(null);
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <FilterModal visible={visible} onClose={onClose} title="Staff Accounts">
+      <View style={styles.section}>
+        <Text style={styles.caption}>
+          Staff share this login and switch in with their own PIN. Every sale is recorded under the person signed in.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.title}>Staff</Text>
+        {!staff ? (
+          <ActivityIndicator color={Colors.primary} />
+        ) : staff.length === 0 ? (
+          <Text style={styles.caption}>No staff accounts yet.</Text>
+        ) : (
+          staff.map(member => (
+            <View key={member.id} style={styles.staffRow}>
+              <View style={styles.staffInfo}>
+                <Text style={styles.staffName} numberOfLines={1}>{member.name}</Text>
+                <Text style={styles.staffRole}>
+                  {getRoleLabel(member.role)}{member.id === activeStaff?.id ? ', signed in' : ''}
+                </Text>
+              </View>
+              {member.id !== activeStaff?.id && (
+                confirmRemoveId === member.id ? (
+                  <TouchableOpacity
+                    style={styles.confirmRemoveButton}
+                    onPress={() => handleRemove(member)}
+                    disabled={busyAction !== null}
+                  >
+                    <Text style={styles.confirmRemoveText}>{busyAction === 'remove' ? 'Removing...' : 'Remove'}</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => handleRemove(member)}
+                    disabled={busyAction !== null}
+                    accessibilityLabel={`Remove ${member.name}`}
+                  >
+                    <Ionicons name="trash-outline" size={20} color={Colors.text.muted} />
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.title}>Add staff</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name"
+          placeholderTextColor={Colors.text.muted}
+          autoCapitalize="words"
+          maxLength={40}
+        />
+
+        <View style={styles.chipGroup}>
+          {STAFF_ROLES.map(item => (
+            <TouchableOpacity
+              key={item.key}
+              style={[styles.chip, role === item.key && styles.chipActive]}
+              onPress={() => setRole(item.key)}
+            >
+              <Text style={[styles.chipText, role === item.key && styles.chipTextActive]}>{item.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.caption}>{STAFF_ROLES.find(item => item.key === role)?.description}</Text>
+
+        <TextInput
+          style={[styles.input, styles.pinInput]}
+          value={pin}
+          onChangeText={(text) => setPin(text.replace(/\D/g, ''))}
+          placeholder={`${STAFF_PIN_LENGTH}-digit PIN`}
+          placeholderTextColor={Colors.text.muted}
+          keyboardType="number-pad"
+          maxLength={STAFF_PIN_LENGTH}
+          secureTextEntry
+        />
+      </View>
+
+      {status && (
+        <Text style={[styles.statusText, status.error && styles.statusTextError]}>{status.message}</Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.saveButton, (!isValid || busyAction !== null) && styles.buttonDisabled]}
+        onPress={handleAdd}
+        disabled={!isValid || busyAction !== null}
+      >
+        <Text style={styles.saveButtonText}>{busyAction === 'add' ? 'Adding...' : 'Add Staff'}</Text>
+      </TouchableOpacity>
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  caption: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    lineHeight: 19,
+  },
+  staffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  staffInfo: {
+    flex: 1,
+  },
+  staffName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  staffRole: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  confirmRemoveButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: Colors.status.failed,
+  },
+  confirmRemoveText: {
+    color: Colors.error,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text.primary,
+  },
+  pinInput: {
+    marginTop: 12,
+  },
+  chipGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#6B46C1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  statusText: {
+    fontSize: 14,
+    color: Colors.success,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  statusTextError: {
+    color: Colors.error,
+  },
+  saveButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default StaffManagementModal;
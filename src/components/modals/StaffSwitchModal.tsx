@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Animated, ActivityIndicator, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import PinPad from '@/components/ui/PinPad';
+import { useAuth } from '@/context/AuthContext';
+import apiService from '@/services/api/apiService';
+import { StaffMember } from '@/types';
+import { getUserFriendlyErrorMessage } from '@/utils/errorHandler';
+import { getRoleLabel } from '@/utils/permissions';
+
+const STAFF_PIN_LENGTH = 4;
+
+interface StaffSwitchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSwitched?: (staff: StaffMember) => void;
+}
+
+/**
+ * Quick staff switch on a shared device: pick your name, then enter your staff PIN.
+ * The PIN is checked by the backend, which hands back the staff session used for attribution.
+ */
+export default function StaffSwitchModal({ visible, onClose, onSwitched }: StaffSwitchModalProps) {
+  const { activeStaff, switchStaff } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [selected, setSelected] = useState<StaffMember | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const shakeAnimation = useRef(new Animated.Value(0)).current;
+
+  const loadStaff = async () => {
+    setStaff(null);
+    setLoadError('');
+    try {
+      const response = await apiService.merchant.getStaff();
+      setStaff(response.data);
+    } catch (loadFailure) {
+      setLoadError(getUserFriendlyErrorMessage(loadFailure, 'Could not load staff accounts.'));
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelected(null);
+    setPin('');
+    setError('');
+    loadStaff();
+  }, [visible]);
+
+  const shakePin = () => {
+    Animated.sequence([
+      Animated.timing(shakeAnimation, { toValue: 10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: -10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: 10, duration: 100, useNativeDriver: true }),
+      Animated.timing(shakeAnimation, { toValue: 0, duration: 100, useNativeDriver: true }),
+    ]).start();
+  };
+
+  const handleComplete = async (value: string) => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const response = await apiService.merchant.startStaffSession(selected.id, value);
+      const switched = await switchStaff({ staff: response.data.staff, token: response.data.staff_token });
+      if (!switched) {
+        setError('Could not save the staff session. Please try again.');
+        setPin('');
+        return;
+      }
+      onSwitched?.(response.data.staff);
+      onClose();
+    } catch (pinError) {
+      setError(getUserFriendlyErrorMessage(pinError, 'Could not check the PIN. Please try again.'));
+      setPin('');
+      shakePin();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderStaffList = () => {
+    if (loadError) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.errorText}>{loadError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadStaff}>
+            <Text style={styles.retryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (!staff) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      );
+    }
+
+    if (staff.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.subtitle}>No staff accounts yet. The owner can add them under Profile.</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView style={styles.list}>
+        {staff.map(member => (
+          <TouchableOpacity
+            key={member.id}
+            style={styles.staffRow}
+            onPress={() => setSelected(member)}
+          >
+            <View style={styles.staffAvatar}>
+              <Text style={styles.staffAvatarText}>{member.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.staffInfo}>
+              <Text style={styles.staffName}>{member.name}</Text>
+              <Text style={styles.staffRole}>{getRoleLabel(member.role)}</Text>
+            </View>
+            {member.id === activeStaff?.id ? (
+              <Ionicons name="checkmark-circle" size={22} color={Colors.success} />
+            ) : (
+              <Ionicons name="chevron-forward" size={18} color={Colors.text.muted} />
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={busy}>
+            <Ionicons name="close" size={24} color={Colors.text.secondary} />
+          </TouchableOpacity>
+
+          {selected ? (
+            <>
+              <TouchableOpacity style={styles.backButton} onPress={() => setSelected(null)} disabled={busy}>
+                <Ionicons name="arrow-back" size={24} color={Colors.text.secondary} />
+              </TouchableOpacity>
+              <View style={styles.iconContainer}>
+                <Ionicons name="lock-closed" size={28} color={Colors.primary} />
+              </View>
+              <Text style={styles.title}>{selected.name}</Text>
+              <Text style={styles.subtitle}>Enter your staff PIN.</Text>
+
+              <Animated.View style={{ transform: [{ translateX: shakeAnimation }] }}>
+                <PinPad
+                  value={pin}
+                  onChange={(value) => {
+                    setPin(value);
+                    setError('');
+                  }}
+                  onComplete={handleComplete}
+                  length={STAFF_PIN_LENGTH}
+                  disabled={busy}
+                  error={!!error}
+                />
+              </Animated.View>
+
+              {busy ? <ActivityIndicator style={styles.busyIndicator} color={Colors.primary} /> : null}
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+            </>
+          ) : (
+            <>
+              <View style={styles.iconContainer}>
+                <Ionicons name="people" size={28} color={Colors.primary} />
+              </View>
+              <Text style={styles.title}>Switch Staff</Text>
+              <Text style={styles.subtitle}>Sales are recorded under the person signed in.</Text>
+              {renderStaffList()}
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    backgroundColor: Colors.background.primary,
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    padding: 4,
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: `${Colors.primary}20`,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 21,
+    marginBottom: 24,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  list: {
+    alignSelf: 'stretch',
+  },
+  staffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  staffAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  staffAvatarText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#6B46C1',
+  },
+  staffInfo: {
+    flex: 1,
+  },
+  staffName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  staffRole: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  retryButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  busyIndicator: {
+    marginTop: 12,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch } from 'react-native';
+import FilterModal from '@/components/ui/FilterModal';
+import Colors from '@/constants/colors';
+import { TIP_CONFIG } from '@/constants/settings';
+import { useSettings } from '@/context/SettingsContext';
+import { normalizeTipPresets } from '@/utils/tips';
+
+interface TipSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (saved: boolean) => void;
+}
+
+const TipSettingsModal: React.FC<TipSettingsModalProps> = ({ visible, onClose, onSaved }) => {
+  const { settings, updateSettings } = useSettings();
+  const [tipsEnabled, setTipsEnabled] = useState(settings.tipsEnabled);
+  const [presetTexts, setPresetTexts] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved values every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setTipsEnabled(settings.tipsEnabled);
+    setPresetTexts(
+      Array.from({ length: TIP_CONFIG.MAX_PRESETS }, (_, index) =>
+        settings.tipPresets[index] !== undefined ? settings.tipPresets[index].toString() : ''
+      )
+    );
+  }, [visible, settings.tipsEnabled, settings.tipPresets]);
+
+  const handlePresetChange = (index: number, text: string) => {
+    setPresetTexts(current => current.map((value, i) => (i === index ? text : value)));
+  };
+
+  const presets = normalizeTipPresets(presetTexts.filter(text => text.trim()).map(Number));
+  const canSave = !tipsEnabled || presets.length > 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await updateSettings({
+      tipsEnabled,
+      // Keep the previous presets when tips are switched off so they come back when re-enabled
+      tipPresets: presets.length > 0 ? presets : settings.tipPresets,
+    });
+    setSaving(false);
+    onSaved?.(saved);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <FilterModal visible={visible} onClose={onClose} title="Tips">
+      <View style={styles.section}>
+        <View style={styles.toggleRow}>
+          <View style={styles.toggleInfo}>
+            <Text style={styles.title}>Ask for a tip</Text>
+            <Text style={styles.caption}>Show a tip step before the customer is scanned</Text>
+          </View>
+          <Switch
+            value={tipsEnabled}
+            onValueChange={setTipsEnabled}
+            trackColor={{ false: Colors.border.medium, true: Colors.primaryLight }}
+            thumbColor={tipsEnabled ? Colors.primary : Colors.background.primary}
+          />
+        </View>
+      </View>
+
+      {tipsEnabled && (
+        <View style={styles.section}>
+          <Text style={styles.title}>Percentage presets</Text>
+          <View style={styles.presetRow}>
+            {presetTexts.map((text, index) => (
+              <View key={index} style={styles.presetInputContainer}>
+                <TextInput
+                  style={styles.presetInput}
+                  value={text}
+                  onChangeText={(value) => handlePresetChange(index, value)}
+                  placeholder="-"
+                  placeholderTextColor={Colors.text.muted}
+                  keyboardType="number-pad"
+                  maxLength={3}
+                />
+                <Text style={styles.presetSuffix}>%</Text>
+              </View>
+            ))}
+          </View>
+          <Text style={styles.caption}>Leave a box empty to offer fewer presets. Customers can always enter a custom tip.</Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.saveButton, (!canSave || saving) && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={!canSave || saving}
+      >
+        <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+      </TouchableOpacity>
+    </FilterModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  caption: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    marginTop: 4,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  presetInputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 12,
+  },
+  presetInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+    paddingVertical: 12,
+    textAlign: 'center',
+  },
+  presetSuffix: {
+    fontSize: 16,
+    color: Colors.text.secondary,
+  },
+  saveButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default TipSettingsModal;
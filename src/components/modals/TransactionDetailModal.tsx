@@ -0,0 +1,501 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import { useStyledAlert } from '@/components/ui/StyledAlert';
+import apiService, { RefundReason } from '@/services/api/apiService';
+import { Transaction } from '@/types';
+import { getUserFriendlyErrorMessage } from '@/utils/errorHandler';
+import { createIdempotencyKey } from '@/utils/idempotency';
+import { formatAmountInput, formatMajorAmount, fromMinorUnits, parseAmountInput, toMinorUnits } from '@/utils/money';
+import { REFUND_REASONS, canRefund, formatStatusLabel, getNetAmount } from '@/utils/refunds';
+
+type RefundMode = 'full' | 'partial';
+
+interface TransactionDetailModalProps {
+  transaction: Transaction | null;
+  currency: string;
+  canIssueRefunds: boolean; // False for staff roles without refund rights
+  onClose: () => void;
+  onRefunded: (transaction: Transaction) => void;
+}
+
+export default function TransactionDetailModal({
+  transaction,
+  currency: accountCurrency,
+  canIssueRefunds,
+  onClose,
+  onRefunded,
+}: TransactionDetailModalProps) {
+  const insets = useSafeAreaInsets();
+  const { showAlert, AlertComponent } = useStyledAlert();
+  const [mode, setMode] = useState<RefundMode | null>(null);
+  const [partialAmountText, setPartialAmountText] = useState('');
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // The same refund retried after a dropped connection must not be issued twice
+  const refundKeyRef = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    setMode(null);
+    setPartialAmountText('');
+    setReason('requested_by_customer');
+    setNote('');
+  }, [transaction?.id]);
+
+  useEffect(() => {
+    refundKeyRef.current = createIdempotencyKey();
+  }, [transaction?.id, mode, partialAmountText, reason, note]);
+
+  if (!transaction) return null;
+
+  const currency = transaction.currency || accountCurrency;
+  const formatCurrency = (amount: number) => formatMajorAmount(amount, currency);
+  const refundableAmount = toMinorUnits(getNetAmount(transaction), currency);
+  const partialAmount = parseAmountInput(partialAmountText, currency);
+  const refundAmount = mode === 'partial' ? partialAmount : refundableAmount;
+  const isReasonValid = reason !== 'other' || note.trim().length > 0;
+  const isAmountValid = refundAmount !== null && refundAmount > 0 && refundAmount <= refundableAmount;
+
+  const submitRefund = async (amount: number) => {
+    setSubmitting(true);
+    try {
+      const response = await apiService.merchant.refund(
+        transaction.id,
+        {
+          // Without an amount the backend refunds the remaining balance
+          amount: mode === 'partial' ? amount : undefined,
+          reason,
+          note: note.trim() || undefined,
+        },
+        refundKeyRef.current
+      );
+      const { refund_status, transaction_status, refunded_amount } = response.data;
+
+      if (refund_status === 'failed') {
+        showAlert('Refund Failed', 'The refund was declined. No money was returned to the customer.', [{ text: 'OK' }], 'error');
+        return;
+      }
+
+      onRefunded({ ...transaction, status: transaction_status, refunded_amount });
+      setMode(null);
+      setPartialAmountText('');
+      setNote('');
+      showAlert(
+        refund_status === 'pending' ? 'Refund Processing' : 'Refund Issued',
+        refund_status === 'pending'
+          ? `${formatCurrency(fromMinorUnits(amount, currency))} will be returned to the customer once the refund clears.`
+          : `${formatCurrency(fromMinorUnits(amount, currency))} was refunded to the customer.`,
+        [{ text: 'OK' }],
+        'success'
+      );
+    } catch (error: any) {
+      showAlert('Refund Failed', getUserFriendlyErrorMessage(error, 'Failed to issue the refund. Please try again.'), [{ text: 'OK' }], 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!isAmountValid || !isReasonValid || refundAmount === null) return;
+
+    const reasonLabel = REFUND_REASONS.find(r => r.key === reason)?.label;
+    showAlert(
+      mode === 'partial' ? 'Confirm Partial Refund' : 'Confirm Refund',
+      `Refund ${formatCurrency(fromMinorUnits(refundAmount, currency))} to ${transaction.customer_name || 'the customer'}?\n\nReason: ${reasonLabel}${note.trim() ? ` (${note.trim()})` : ''}\n\nThis cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Refund', style: 'destructive', onPress: () => submitRefund(refundAmount) },
+      ],
+      'warning'
+    );
+  };
+
+  const renderDetailRow = (label: string, value: string) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+
+  const createdAt = new Date(transaction.created_at);
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={[styles.container, { paddingTop: insets.top }]}
+      >
+        {/* Gradient Header */}
+        <LinearGradient
+          colors={Colors.gradients.header}
+          style={styles.gradientHeader}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <TouchableOpacity style={styles.headerButton} onPress={onClose} disabled={submitting}>
+            <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Transaction</Text>
+          <View style={styles.headerButtonPlaceholder} />
+        </LinearGradient>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Amount */}
+          <View style={styles.amountCard}>
+            <Text style={styles.amountValue}>{formatCurrency(transaction.amount)}</Text>
+            <Text style={styles.amountStatus}>{formatStatusLabel(transaction.status)}</Text>
+            {!!transaction.refunded_amount && (
+              <Text style={styles.refundedText}>
+                {formatCurrency(transaction.refunded_amount)} refunded
+              </Text>
+            )}
+          </View>
+
+          {/* Details */}
+          <View style={styles.card}>
+            {renderDetailRow('Customer', transaction.customer_name || 'Customer')}
+            {renderDetailRow('Date', createdAt.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }))}
+            {renderDetailRow('Time', createdAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }))}
+            {!!transaction.description && renderDetailRow('Description', transaction.description)}
+            {!!transaction.staff_name && renderDetailRow('Rung Up By', transaction.staff_name)}
+            {renderDetailRow('Reference', transaction.id)}
+          </View>
+
+          {/* Line Items */}
+          {!!transaction.line_items?.length && (
+            <View style={styles.card}>
+              {transaction.line_items.map((item, index) => (
+                <View key={`${item.name}-${index}`} style={styles.lineItem}>
+                  <Text style={styles.lineItemName}>
+                    {item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name}
+                  </Text>
+                  <Text style={styles.lineItemAmount}>
+                    {formatCurrency(fromMinorUnits(item.total_amount, currency))}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Refund Actions */}
+          {canRefund(transaction) && canIssueRefunds && !mode && (
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.refundButton} onPress={() => setMode('full')}>
+                <Ionicons name="return-down-back" size={20} color="#FFFFFF" />
+                <Text style={styles.refundButtonText}>Refund</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setMode('partial')}>
+                <Text style={styles.secondaryButtonText}>Partial refund</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {canRefund(transaction) && !canIssueRefunds && (
+            <Text style={styles.restrictedText}>Ask a manager or the owner to issue refunds.</Text>
+          )}
+
+          {/* Refund Form */}
+          {mode && (
+            <View style={styles.card}>
+              <Text style={styles.formTitle}>{mode === 'partial' ? 'Partial refund' : 'Refund'}</Text>
+              <Text style={styles.formCaption}>
+                Up to {formatCurrency(fromMinorUnits(refundableAmount, currency))} can be refunded
+              </Text>
+
+              {mode === 'partial' && (
+                <TextInput
+                  style={styles.input}
+                  value={partialAmountText}
+                  onChangeText={setPartialAmountText}
+                  placeholder={formatAmountInput(0, currency)}
+                  placeholderTextColor={Colors.text.muted}
+                  keyboardType="numeric"
+                  editable={!submitting}
+                />
+              )}
+
+              <Text style={styles.inputLabel}>Reason</Text>
+              <View style={styles.reasonGroup}>
+                {REFUND_REASONS.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.reasonChip, reason === option.key && styles.reasonChipActive]}
+                    onPress={() => setReason(option.key)}
+                    disabled={submitting}
+                  >
+                    <Text style={[styles.reasonChipText, reason === option.key && styles.reasonChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TextInput
+                style={[styles.input, styles.noteInput]}
+                value={note}
+                onChangeText={setNote}
+                placeholder={reason === 'other' ? 'Describe the reason' : 'Note (optional)'}
+                placeholderTextColor={Colors.text.muted}
+                multiline
+                editable={!submitting}
+              />
+
+              <TouchableOpacity
+                style={[styles.refundButton, (!isAmountValid || !isReasonValid || submitting) && styles.buttonDisabled]}
+                onPress={handleConfirm}
+                disabled={!isAmountValid || !isReasonValid || submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.refundButtonText}>
+                    Refund {refundAmount !== null && refundAmount > 0 ? formatCurrency(fromMinorUnits(refundAmount, currency)) : ''}
+                  </Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setMode(null)} disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Styled Alert Component */}
+      <AlertComponent />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F7FF',
+  },
+  gradientHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    paddingBottom: 16,
+    minHeight: 80,
+    borderBottomLeftRadius: 4,
+    borderBottomRightRadius: 4,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerButtonPlaceholder: {
+    width: 44,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  amountCard: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  amountValue: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+  },
+  amountStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  refundedText: {
+    fontSize: 14,
+    color: Colors.info,
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: Colors.background.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    padding: 16,
+    marginBottom: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    gap: 16,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text.primary,
+    textAlign: 'right',
+  },
+  lineItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  lineItemName: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text.primary,
+  },
+  lineItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  actions: {
+    gap: 12,
+  },
+  restrictedText: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  refundButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  refundButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6B46C1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  formCaption: {
+    fontSize: 13,
+    color: Colors.text.secondary,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: Colors.background.input,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text.primary,
+    marginBottom: 16,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  reasonGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reasonChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  reasonChipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#6B46C1',
+  },
+  reasonChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  reasonChipTextActive: {
+    color: '#FFFFFF',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: Colors.text.secondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,139 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react-native';
+import { ERROR_MESSAGES } from '@/constants/api';
+import PinVerificationModal from '../PinVerificationModal';
+
+jest.mock('@/services/security/merchantPinService', () => ({
+  hasMerchantPin: async () => true,
+  getMerchantPinLock: async () => null,
+  setMerchantPin: jest.fn(),
+  checkMerchantPin: async (pin: string) => (pin === '2468'
+    ? { kind: 'Accepted' }
+    : { kind: 'Rejected', attemptsRemaining: 2, lockedUntil: null }),
+}));
+
+const renderModal = (props: Partial<React.ComponentProps<typeof PinVerificationModal>> = {}) => {
+  const onVerify = props.onVerify || jest.fn().mockResolvedValue(true);
+  const onClose = jest.fn();
+  render(
+    <PinVerificationModal
+      visible
+      onClose={onClose}
+      onCancel={jest.fn()}
+      loading={false}
+      {...props}
+      onVerify={onVerify}
+    />
+  );
+  return { onVerify, onClose };
+};
+
+const pressDigits = (digits: string) => {
+  Array.from(digits).forEach(digit => fireEvent.press(screen.getByLabelText(digit)));
+};
+
+describe('PinVerificationModal PIN length', () => {
+  it.each([4, 5, 6])('shows %i slots and submits once the last of them is entered', async (pinLength) => {
+    const pin = '123456'.slice(0, pinLength);
+    const { onVerify, onClose } = renderModal({ pinLength });
+
+    expect(screen.getByText(`Enter your ${pinLength}-digit PIN`)).toBeTruthy();
+    expect(screen.getByLabelText(`0 of ${pinLength} digits entered`)).toBeTruthy();
+
+    pressDigits(pin.slice(0, -1));
+    expect(screen.getByLabelText(`${pinLength - 1} of ${pinLength} digits entered`)).toBeTruthy();
+    expect(onVerify).not.toHaveBeenCalled();
+
+    pressDigits(pin.slice(-1));
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onVerify).toHaveBeenCalledTimes(1);
+    expect(onVerify).toHaveBeenCalledWith(pin);
+  });
+
+  it('ignores digits past the PIN length', async () => {
+    const { onVerify } = renderModal({ pinLength: 4, onVerify: jest.fn().mockResolvedValue(false) });
+
+    pressDigits('12345');
+    await waitFor(() => expect(onVerify).toHaveBeenCalledTimes(1));
+    expect(onVerify).toHaveBeenCalledWith('1234');
+  });
+
+  it('defaults to four digits when no length is given', async () => {
+    const { onVerify } = renderModal();
+
+    expect(screen.getByText('Enter your 4-digit PIN')).toBeTruthy();
+    pressDigits('9876');
+    await waitFor(() => expect(onVerify).toHaveBeenCalledWith('9876'));
+  });
+
+  it('clears the entry after a wrong PIN so the next attempt starts empty', async () => {
+    const { onVerify } = renderModal({ pinLength: 6, onVerify: jest.fn().mockResolvedValue(false) });
+
+    pressDigits('111111');
+    await waitFor(() => expect(onVerify).toHaveBeenCalled());
+    expect(await screen.findByLabelText('0 of 6 digits entered')).toBeTruthy();
+  });
+});
+
+describe('PinVerificationModal messages', () => {
+  it('shows why the PIN is needed', () => {
+    renderModal({ message: 'Please enter your PIN to confirm this payment.' });
+    expect(screen.getByText('Please enter your PIN to confirm this payment.')).toBeTruthy();
+  });
+
+  it('shows the reason the last PIN was not accepted until the customer types again', () => {
+    renderModal({ pinError: 'Network error. Please check your connection.' });
+
+    expect(screen.getByText('Network error. Please check your connection.')).toBeTruthy();
+    pressDigits('1');
+    expect(screen.queryByText('Network error. Please check your connection.')).toBeNull();
+  });
+
+  it('does not call a failed attempt a wrong PIN on its own', async () => {
+    const { onVerify } = renderModal({ onVerify: jest.fn().mockResolvedValue(false) });
+
+    pressDigits('1234');
+    await waitFor(() => expect(onVerify).toHaveBeenCalled());
+    expect(screen.queryByText(ERROR_MESSAGES.INVALID_PIN)).toBeNull();
+  });
+});
+
+describe('PinVerificationModal customer mode', () => {
+  const returnButton = () => screen.getByText('Merchant: press and hold to return');
+  // The merchant PIN keypad renders after the customer's own
+  const pressMerchantDigits = (digits: string) => {
+    Array.from(digits).forEach(digit => fireEvent.press(screen.getAllByLabelText(digit).at(-1)!));
+  };
+
+  it('returns to merchant controls on a long press when the customer display is off', () => {
+    renderModal({ startInCustomerMode: true });
+
+    fireEvent(returnButton(), 'longPress');
+    expect(screen.getByText('Hand to Customer')).toBeTruthy();
+  });
+
+  it('asks for the merchant PIN before leaving customer mode on a customer display', () => {
+    renderModal({ startInCustomerMode: true, requireMerchantPin: true });
+
+    fireEvent(returnButton(), 'longPress');
+    expect(screen.getByText('Merchant PIN')).toBeTruthy();
+    expect(screen.queryByText('Hand to Customer')).toBeNull();
+  });
+
+  it('stays in customer mode after a wrong merchant PIN', async () => {
+    renderModal({ startInCustomerMode: true, requireMerchantPin: true });
+
+    fireEvent(returnButton(), 'longPress');
+    pressMerchantDigits('1357');
+    expect(await screen.findByText(/^Incorrect merchant PIN/)).toBeTruthy();
+    expect(screen.queryByText('Hand to Customer')).toBeNull();
+  });
+
+  it('returns to merchant controls after the right merchant PIN', async () => {
+    renderModal({ startInCustomerMode: true, requireMerchantPin: true });
+
+    fireEvent(returnButton(), 'longPress');
+    pressMerchantDigits('2468');
+    expect(await screen.findByText('Hand to Customer')).toBeTruthy();
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useImperativeHandle, useReducer, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,174 +7,247 @@ import {
   ActivityIndicator,
   Modal,
   Dimensions,
-  Platform,
+  Pressable,
+  GestureResponderEvent,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import * as ImagePicker from 'expo-image-picker';
-import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, useCameraDevice, useCameraPermission } from 'react-native-vision-camera';
 import * as ImageManipulator from 'expo-image-manipulator';
 import Colors from '@/constants/colors';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/constants/api';
-import apiService, { FaceVerificationResponse, PinVerificationRequest } from '@/services/api/apiService';
+import { ERROR_MESSAGES } from '@/constants/api';
+import apiService, {
+  FaceVerificationResponse,
+  PaymentRequestChannel,
+  PinVerificationRequest,
+  PinVerificationResponse,
+} from '@/services/api/apiService';
+import type { LineItem } from '@/types';
 import PinVerificationModal from '../modals/PinVerificationModal';
+import PhonePaymentRequestModal from '../modals/PhonePaymentRequestModal';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import { getUserFriendlyErrorMessage } from '@/utils/errorHandler';
-import { wp, hp, scale, fontScale } from '@/utils/responsive';
+import { wp, hp, scale } from '@/utils/responsive';
+import { deriveIdempotencyKey } from '@/utils/idempotency';
+import { FaceDetector, mlKitFaceDetector } from '@/services/vision/faceDetector';
+import {
+  LIVENESS_FAILURE_MESSAGES,
+  LIVENESS_PROMPTS,
+  LivenessResult,
+  pickLivenessChallenge,
+  runLivenessCheck,
+} from '@/services/vision/liveness';
+import { analyzeImageQuality } from '@/services/vision/imageQuality';
+import { QUALITY_GUIDANCE } from '@/utils/imageQuality';
+import { FACE_PLACEMENT_GUIDANCE } from '@/utils/faceFraming';
+import { useFaceAutoCapture } from '@/hooks/useFaceAutoCapture';
+import { AUTO_CAPTURE_CONFIG, FACE_CROP_CONFIG } from '@/constants/vision';
+import { getFaceCropRect, pickPrimaryFace } from '@/utils/faceCrop';
+import CountdownRing from '@/components/ui/CountdownRing';
+import { useSettings } from '@/context/SettingsContext';
+import { formatMoney } from '@/utils/money';
+import {
+  VerificationFailure,
+  VerificationSuccess,
+  initialVerificationState,
+  isAwaitingPin,
+  isVerificationBusy,
+  parseFaceVerificationResponse,
+  parsePinVerificationResponse,
+  verificationReducer,
+} from '@/utils/faceVerificationMachine';
 
 const { width, height } = Dimensions.get('window');
 
 // Circle size: 65% of screen width for consistent look on all devices
 const CIRCLE_SIZE = wp(65);
 
+// Tap-to-focus: how long the marker shows where the merchant tapped
+const FOCUS_MARKER_DURATION = 800;
+const FOCUS_MARKER_SIZE = 64;
+
+// Exposure compensation: steps on each side of neutral, together covering part of the lens's bias range,
+// since the ends of the range give an almost black or white image
+const EXPOSURE_STEPS = 3;
+const EXPOSURE_RANGE_FRACTION = 0.25;
+
+// How long the success banner is shown before handing off to the parent
+const SUCCESS_HANDOFF_DELAY = 1500;
+const PIN_SUCCESS_HANDOFF_DELAY = 1000;
+
+// Lets the owner abort an in-flight verification, e.g. from a Cancel button on its loading overlay
+export interface FaceVerificationHandle {
+  cancel: () => void;
+}
+
 interface FaceVerificationComponentProps {
-  onVerificationSuccess: (userId: string, faceScanId: string, paymentAlreadyProcessed?: boolean, requestId?: string) => void;
-  onVerificationError: (error: string) => void;
+  ref?: React.Ref<FaceVerificationHandle>;
+  onVerificationSuccess: (outcome: VerificationSuccess) => void;
+  // retryable is true when the same sale attempt may be resubmitted with the same idempotency key
+  onVerificationError: (error: string, retryable?: boolean) => void;
   disabled?: boolean;
-  amount: number; // Required amount in cents
+  idempotencyKey?: string; // Identifies the sale attempt so retried submissions are not charged twice
+  amount: number; // Required amount in minor units of currency, including any tip
+  tipAmount?: number; // Optional tip in minor units, reported separately from the subtotal
   currency?: string; // Optional, defaults to "USD"
   description?: string; // Optional, defaults to "Face payment"
+  lineItems?: LineItem[]; // Optional itemized breakdown of the subtotal
   onLoadingStateChange?: (loading: boolean, message?: string) => void; // New prop for loading state communication
-}
-
-interface VerificationState {
-  loading: boolean;
-  showPinModal: boolean;
-  faceScanId: string;
-  error: string | null;
-  success: boolean;
-  verifiedUserName?: string;
-  pinVerificationLoading: boolean; // New state for PIN verification loading
+  faceDetector?: FaceDetector; // Optional, defaults to ML Kit; used by the liveness check
+  onUploadProgress?: (progress: number) => void; // Fraction 0..1 of the face image uploaded
+  customerFacing?: boolean; // Device faces the customer, so PIN entry opens in the customer view
 }
 
 export default function FaceVerificationComponent({
   onVerificationSuccess,
   onVerificationError,
   disabled = false,
+  idempotencyKey,
   amount,
+  tipAmount = 0,
   currency = "USD",
   description = "Face payment",
+  lineItems,
   onLoadingStateChange,
+  faceDetector = mlKitFaceDetector,
+  onUploadProgress,
+  customerFacing = false,
+  ref,
 }: FaceVerificationComponentProps) {
   const { showAlert, AlertComponent } = useStyledAlert();
-  const [permission, requestPermission] = useCameraPermissions();
-  const cameraRef = useRef<CameraView | null>(null);
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const cameraRef = useRef<Camera | null>(null);
   const [showCamera, setShowCamera] = useState(false);
-  const [state, setState] = useState<VerificationState>({
-    loading: false,
-    showPinModal: false,
-    faceScanId: '',
-    error: null,
-    success: false,
-    verifiedUserName: undefined,
-    pinVerificationLoading: false,
-  });
-
-  const updateState = useCallback((updates: Partial<VerificationState>) => {
-    setState(prev => {
-      const newState = { ...prev, ...updates };
-
-      // Communicate loading state changes to parent
-      if (onLoadingStateChange) {
-        const isLoading = newState.loading || newState.pinVerificationLoading;
-        let message = '';
-
-        if (newState.loading) {
-          message = 'Verifying face...';
-        } else if (newState.pinVerificationLoading) {
-          message = 'Verifying PIN...';
-        }
-
-        onLoadingStateChange(isLoading, message);
-      }
-
-      return newState;
-    });
-  }, [onLoadingStateChange]);
-
-  const resetState = useCallback(() => {
-    setState({
-      loading: false,
-      showPinModal: false,
-      faceScanId: '',
-      error: null,
-      success: false,
-      verifiedUserName: undefined,
-      pinVerificationLoading: false,
-    });
-
-    // Notify parent that loading is complete
-    if (onLoadingStateChange) {
+  const [state, dispatch] = useReducer(verificationReducer, initialVerificationState);
+  // Each rejected PIN is a new submission, so it needs its own key
+  const pinAttemptRef = useRef(0);
+  const [isCheckingLiveness, setIsCheckingLiveness] = useState(false);
+  const [cameraMessage, setCameraMessage] = useState<string | null>(null);
+  const livenessCancelledRef = useRef(false);
+  // Auto capture, liveness and the final shot share the camera, which takes one picture at a time
+  const pendingFrameRef = useRef<Promise<unknown> | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const cameraFacing = settings.cameraFacing;
+  const device = useCameraDevice(cameraFacing);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  // Relative to the lens's range, so the same step still applies after flipping the camera
+  const [exposureStep, setExposureStep] = useState(0);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
+  // The verify request in flight; aborted on cancel and on unmount so late responses are dropped
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const [showPhoneRequest, setShowPhoneRequest] = useState(false);
+  const [isSendingFallback, setIsSendingFallback] = useState(false);
+
+  const isBusy = isVerificationBusy(state);
+
+  // Communicate loading state changes to parent
+  useEffect(() => {
+    if (!onLoadingStateChange) return;
+
+    if (state.status === 'verifying') {
+      onLoadingStateChange(true, 'Verifying face...');
+    } else if (state.status === 'verifyingPin') {
+      onLoadingStateChange(true, 'Verifying PIN...');
+    } else {
       onLoadingStateChange(false);
     }
-  }, [onLoadingStateChange]);
+  }, [state.status, onLoadingStateChange]);
+
+  const resetState = () => {
+    dispatch({ type: 'RESET' });
+  };
+
+  useEffect(() => {
+    return () => {
+      livenessCancelledRef.current = true;
+      requestControllerRef.current?.abort();
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    cancel: () => {
+      requestControllerRef.current?.abort();
+      resetState();
+    },
+  }));
+
+  const startRequest = (): AbortController => {
+    requestControllerRef.current?.abort();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    return controller;
+  };
+
+
+  // Defer parent state update to avoid React warning
+  const notifyError = (errorMessage: string, retryable: boolean = false) => {
+    setTimeout(() => {
+      onVerificationError(errorMessage, retryable);
+    }, 0);
+  };
+
+  // Show the success banner briefly, then hand the outcome to the parent
+  const completeVerification = (outcome: VerificationSuccess, delay: number) => {
+    setTimeout(() => {
+      if (requestControllerRef.current?.signal.aborted) return;
+      resetState();
+      onVerificationSuccess(outcome);
+    }, delay);
+  };
 
   const takeSquarePicture = async () => {
+    await pendingFrameRef.current?.catch(() => null);
     if (!cameraRef.current) return null;
 
-    try {
-      // 1. Capture the full-resolution photo
-      const photo = await cameraRef.current.takePictureAsync({
-        skipProcessing: Platform.OS === 'ios',
-        quality: 0.8,
-      });
+    // 1. Capture the full-resolution photo
+    const photo = await cameraRef.current.takePhoto();
 
-      const photoWidth = photo.width ?? 0;
-      const photoHeight = photo.height ?? 0;
+    // 2. Re-encode without actions so EXIF orientation is applied to the pixels on both platforms,
+    //    otherwise face bounds and crop coordinates would refer to the sensor orientation
+    const upright = await ImageManipulator.manipulateAsync(`file://${photo.path}`, [], {
+      compress: 1,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
 
-      if (!photoWidth || !photoHeight) {
-        throw new Error('Unable to determine captured image dimensions.');
-      }
+    if (!upright.width || !upright.height) {
+      throw new Error('Unable to determine captured image dimensions.');
+    }
 
-      // 2. Compute a centered square crop and clamp to image bounds
-      const targetSize = Math.min(photoWidth, photoHeight);
-      const cropWidth = Math.floor(targetSize);
-      const cropHeight = Math.floor(targetSize);
-      const originX = Math.max(0, Math.floor((photoWidth - cropWidth) / 2));
-      const originY = Math.max(0, Math.floor((photoHeight - cropHeight) / 2));
-      const availableWidth = Math.max(0, photoWidth - originX);
-      const availableHeight = Math.max(0, photoHeight - originY);
-      const crop = {
-        originX,
-        originY,
-        width: Math.min(cropWidth, availableWidth),
-        height: Math.min(cropHeight, availableHeight),
-      };
+    // 3. Crop around the customer's face, or the centered square if no face is found
+    const faces = await faceDetector.detect(upright.uri).catch(() => []);
+    const crop = getFaceCropRect(
+      pickPrimaryFace(faces.map(face => face.bounds)),
+      upright.width,
+      upright.height
+    );
 
-      if (crop.width <= 0 || crop.height <= 0) {
-        throw new Error('Calculated crop dimensions are invalid for the captured image.');
-      }
+    if (crop.width <= 0 || crop.height <= 0) {
+      throw new Error('Calculated crop dimensions are invalid for the captured image.');
+    }
 
-      // 3. Crop to square and resize to optimal size for face recognition
-      const square = await ImageManipulator.manipulateAsync(
-        photo.uri,
-        [
-          { crop },
-          { resize: { width: 640, height: 640 } },
-        ],
-        {
-          compress: 0.9,
-          format: ImageManipulator.SaveFormat.JPEG,
-        }
-      );
+    // 4. Crop to square and resize to optimal size for face recognition
+    const square = await ImageManipulator.manipulateAsync(
+      upright.uri,
+      [
+        { crop },
+        { resize: { width: FACE_CROP_CONFIG.OUTPUT_SIZE, height: FACE_CROP_CONFIG.OUTPUT_SIZE } },
+      ],
+      {
+        compress: 0.9,
+        format: ImageManipulator.SaveFormat.JPEG,
+      }
+    );
 
-      return square.uri;
-    } catch (error) {
-      throw error;
-    }
+    return square.uri;
   };
 
   const handleImageCapture = async () => {
-    if (disabled || state.loading) return;
+    if (disabled || isBusy) return;
 
     // Check camera permissions
-    if (!permission) {
-      return;
-    }
-
-    if (!permission.granted) {
-      const permissionResult = await requestPermission();
-      if (!permissionResult.granted) {
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) {
         showAlert(
           'Camera Access Required',
           'FP Merchant needs camera permission to scan customer faces for payment verification.',
@@ -183,8 +256,8 @@ export default function FaceVerificationComponent({
             {
               text: 'Allow',
               onPress: async () => {
-                const retryPermission = await requestPermission();
-                if (retryPermission.granted) {
+                const retryGranted = await requestPermission();
+                if (retryGranted) {
                   handleImageCapture();
                 }
               }
@@ -197,32 +270,133 @@ export default function FaceVerificationComponent({
     }
 
     // Open custom camera modal
+    setCameraMessage(null);
     setShowCamera(true);
   };
 
-  const handleTakePhoto = async () => {
-    if (!cameraRef.current) return;
+  const closeCamera = () => {
+    livenessCancelledRef.current = true;
+    setIsTorchOn(false);
+    setShowCamera(false);
+  };
+
+  // Remembered per device so a counter-mounted tablet always opens on the right lens
+  const handleFlipCamera = () => {
+    setIsTorchOn(false);
+    updateSettings({ cameraFacing: cameraFacing === 'front' ? 'back' : 'front' });
+  };
+
+  // Focus and meter on the tapped point; the marker shows where the merchant tapped
+  const handleFocusTap = (event: GestureResponderEvent) => {
+    const { locationX, locationY } = event.nativeEvent;
+    setFocusPoint({ x: locationX, y: locationY });
+    if (device?.supportsFocus) {
+      // Rejects when a newer tap or a capture interrupts the focus, which needs no handling
+      cameraRef.current?.focus({ x: locationX, y: locationY }).catch(() => {});
+    }
+    setTimeout(() => setFocusPoint(null), FOCUS_MARKER_DURATION);
+  };
+
+  // Brighter for dim counters, darker against a bright window behind the customer
+  const neutralExposure = device ? (device.minExposure + device.maxExposure) / 2 : 0;
+  const canAdjustExposure = !!device && device.maxExposure > device.minExposure;
+  const exposure = canAdjustExposure
+    ? neutralExposure + (exposureStep / EXPOSURE_STEPS) * EXPOSURE_RANGE_FRACTION
+      * (exposureStep < 0 ? neutralExposure - device.minExposure : device.maxExposure - neutralExposure)
+    : undefined;
+
+  const adjustExposure = (delta: number) => {
+    setExposureStep(step => Math.max(-EXPOSURE_STEPS, Math.min(EXPOSURE_STEPS, step + delta)));
+  };
+
+  // Low quality preview snapshot, only analyzed on the device
+  const capturePreviewFrame = async () => {
+    await pendingFrameRef.current?.catch(() => null);
+    if (!cameraRef.current) return null;
+    const pending = cameraRef.current.takeSnapshot({ quality: 30 });
+    pendingFrameRef.current = pending;
+    const frame = await pending;
+    return { uri: `file://${frame.path}`, width: frame.width, height: frame.height };
+  };
+
+  const checkLiveness = async (): Promise<LivenessResult | null> => {
+    const challenge = pickLivenessChallenge();
+    livenessCancelledRef.current = false;
+    setIsCheckingLiveness(true);
+    setCameraMessage(LIVENESS_PROMPTS[challenge]);
 
-    updateState({ loading: true });
     try {
-      const imageUri = await takeSquarePicture();
-      if (imageUri) {
-        setShowCamera(false);
-        await processFaceImage(imageUri);
+      const result = await runLivenessCheck({
+        challenge,
+        captureFrame: capturePreviewFrame,
+        detector: faceDetector,
+        isCancelled: () => livenessCancelledRef.current,
+      });
+
+      if (!result.passed) {
+        setCameraMessage(result.reason ? LIVENESS_FAILURE_MESSAGES[result.reason] : LIVENESS_FAILURE_MESSAGES.timeout);
+        return null;
       }
+
+      setCameraMessage(null);
+      return result;
+    } catch {
+      setCameraMessage('Liveness check could not run. Please try again.');
+      return null;
+    } finally {
+      setIsCheckingLiveness(false);
+    }
+  };
+
+  const handleTakePhoto = async () => {
+    if (!cameraRef.current || isCheckingLiveness) return;
+
+    // The still frame is only uploaded once the customer has proven they are live
+    const liveness = await checkLiveness();
+    if (!liveness || livenessCancelledRef.current) return;
+
+    dispatch({ type: 'CAPTURE_STARTED' });
+    let imageUri: string | null = null;
+    try {
+      imageUri = await takeSquarePicture();
     } catch (error) {
       const errorMessage = 'Failed to capture image. Please try again.';
-      updateState({ error: errorMessage, loading: false });
-      // Defer parent state update to avoid React warning
-      setTimeout(() => {
-        onVerificationError(errorMessage);
-      }, 0);
+      dispatch({ type: 'CAPTURE_FAILED', message: errorMessage });
+      // Nothing reached the backend, the sale attempt is untouched
+      notifyError(errorMessage, true);
+      return;
     }
+
+    if (!imageUri) return;
+
+    const qualityIssue = await getQualityIssue(imageUri);
+    if (qualityIssue) {
+      // Keep the camera open so the merchant can follow the guidance and shoot again
+      dispatch({ type: 'CAPTURE_FAILED', message: qualityIssue });
+      setCameraMessage(qualityIssue);
+      notifyError(qualityIssue, true);
+      return;
+    }
+
+    setShowCamera(false);
+    await processFaceImage(imageUri, liveness);
   };
 
-  const processFaceImage = async (imageUri: string) => {
-    updateState({ loading: true, error: null, success: false });
+  /**
+   * Guidance for the first quality problem, or null when the frame is good enough to upload.
+   * If the analysis itself fails the frame is uploaded anyway and the backend decides.
+   */
+  const getQualityIssue = async (imageUri: string): Promise<string | null> => {
+    try {
+      const report = await analyzeImageQuality(imageUri, faceDetector);
+      return report.passed ? null : QUALITY_GUIDANCE[report.issues[0]];
+    } catch {
+      return null;
+    }
+  };
 
+  const processFaceImage = async (imageUri: string, liveness: LivenessResult) => {
+    const controller = startRequest();
     try {
       // Prepare form data
       const formData = new FormData();
@@ -232,284 +406,257 @@ export default function FaceVerificationComponent({
         name: 'face.jpg',
       } as any);
       formData.append('amount', amount.toString());
+      formData.append('subtotal_amount', (amount - tipAmount).toString());
+      formData.append('tip_amount', tipAmount.toString());
       formData.append('currency', currency);
       formData.append('description', description);
+      if (lineItems && lineItems.length > 0) {
+        formData.append('line_items', JSON.stringify(lineItems));
+      }
+      formData.append('liveness_verdict', liveness.passed ? 'passed' : 'failed');
+      formData.append('liveness_score', liveness.score.toFixed(2));
+      formData.append('liveness_challenge', liveness.challenge);
 
       // Call face verification API
-      const response = await apiService.face.verifyFace(formData);
+      const response = await apiService.face.verifyFace(formData, idempotencyKey, {
+        signal: controller.signal,
+        onUploadProgress,
+      });
       const data: FaceVerificationResponse = response.data;
 
-      // Debug: Log the exact response
-
-      // Handle different response scenarios
-      await handleFaceVerificationResponse(data);
-
+      handleFaceVerificationResponse(data);
     } catch (error: any) {
-      await handleFaceVerificationError(error);
-    } finally {
-      updateState({ loading: false });
-    }
-  };
+      // Cancelled by the owner, which already reset the state, or unmounted
+      if (controller.signal.aborted) return;
 
-  const handleFaceVerificationResponse = async (data: FaceVerificationResponse) => {
-    // Condition A: Backend requires PIN (ambiguous or step-up verification)
-    // Be resilient to backend variations: honor requires_pin regardless of match_found flag
-    if (data.requires_pin) {
-      if (data.face_scan_id) {
-        updateState({
-          showPinModal: true,
-          faceScanId: data.face_scan_id,
-        });
-        return;
+      const duplicate = getDuplicateResponse<FaceVerificationResponse>(error);
+      if (duplicate) {
+        handleFaceVerificationResponse(duplicate);
+      } else {
+        handleFaceVerificationError(error);
       }
-      const errorMessage = 'Invalid response from verification service. Please try again.';
-      updateState({ error: errorMessage });
-      // Defer parent state update to avoid React warning
-      setTimeout(() => {
-        onVerificationError(errorMessage);
-      }, 0);
-      return;
     }
+  };
 
-    // Condition B: Success response - check for payment request creation
-    if (data.success) {
-      // Check if message indicates payment request was created and sent
-      if (data.message && (
-        data.message.toLowerCase().includes('payment request created') ||
-        data.message.toLowerCase().includes('sent to customer') ||
-        data.message.toLowerCase().includes('payment initiated')
-      )) {
-        // Payment request was successfully created and sent to customer
-        updateState({
-          success: true,
-          verifiedUserName: undefined,
-          faceScanId: data.face_scan_id || '',
-        });
-
-        // Extract request_id from response
-        const requestId = data.request?.request_id || data.request_id;
-
-        // Show success message briefly before proceeding
-        setTimeout(() => {
-          resetState();
-          // Pass a dummy user ID since payment request was created
-          onVerificationSuccess(
-            'payment_request_created',
-            data.face_scan_id || '',
-            false, // Payment request sent, not auto-processed
-            requestId
-          );
-        }, 1500);
-        return;
-      }
-
-      // Clear single match, no PIN needed (auto payment handled by backend)
-      if (data.match_found && !data.requires_pin) {
-        if (data.matches && data.matches.length > 0 && data.face_scan_id) {
-          const userId = data.matches[0].user_id;
-          const userName = data.matches[0].name;
-          const requestId = data.request?.request_id || data.request_id;
-
-          updateState({
-            success: true,
-            verifiedUserName: userName,
-            faceScanId: data.face_scan_id,
-          });
-
-          // Show welcome message briefly before proceeding
-          setTimeout(() => {
-            resetState();
-            // If backend already created the payment request, mark as processed
-            onVerificationSuccess(
-              userId,
-              data.face_scan_id!,
-              data.auto_payment === true,
-              requestId
-            );
-          }, 1500);
-          return;
-        }
-      }
-
-      // If success but no clear indication, treat as successful payment request creation
-      const requestId = data.request?.request_id || data.request_id;
-      updateState({
-        success: true,
-        verifiedUserName: undefined,
-        faceScanId: data.face_scan_id || '',
-      });
-
-      setTimeout(() => {
-        resetState();
-        onVerificationSuccess(
-          'success_generic',
-          data.face_scan_id || '',
-          false,
-          requestId
-        );
-      }, 1500);
-      return;
+  /**
+   * A 409 means the idempotency key was already used for this sale.
+   * If the body carries the existing request, treat it like a normal duplicate response.
+   */
+  const getDuplicateResponse = <T extends { is_duplicate?: boolean }>(error: any): T | null => {
+    const data = error?.response?.data;
+    if (error?.response?.status !== 409 || !data || !(data.request || data.request_id)) {
+      return null;
     }
+    return { ...data, is_duplicate: true };
+  };
 
-    // Condition C: Check if message indicates PIN is needed (fallback for backend inconsistency)
-    if (data.success && data.face_scan_id && (
-      data.message?.toLowerCase().includes('multiple') ||
-      data.message?.toLowerCase().includes('similar') ||
-      data.message?.toLowerCase().includes('pin') ||
-      data.message?.toLowerCase().includes('verification required')
-    )) {
-      // Force PIN modal even if backend flags are inconsistent
-
-      updateState({
-        showPinModal: true,
-        faceScanId: data.face_scan_id,
-      });
-      return;
+  /**
+   * Lockouts may come back as an error status (423, 429) with the usual verify-pin body
+   */
+  const getPinRejection = (error: any): PinVerificationResponse | null => {
+    const data = error?.response?.data;
+    if (!data || (data.attempts_remaining === undefined && !data.locked_until)) {
+      return null;
     }
+    return { ...data, success: false };
+  };
 
-    // Condition D: Aggressive fallback - if success but no clear single match, try PIN modal
-    if (data.success && data.face_scan_id) {
+  /**
+   * Failures without a definitive answer from the backend can be resubmitted with the same key
+   */
+  const isRetryableError = (error: any): boolean => {
+    const status = error?.response?.status;
+    return !status || status === 409 || status >= 500;
+  };
 
-      updateState({
-        showPinModal: true,
-        faceScanId: data.face_scan_id,
-      });
-      return;
-    }
+  const handleFaceVerificationResponse = (data: FaceVerificationResponse) => {
+    const outcome = parseFaceVerificationResponse(data);
+    dispatch({ type: 'FACE_OUTCOME', outcome });
 
-    // Condition E: No match found - but check message first to avoid false negatives
-    if (!data.success) {
-      // Only show "Face Not Recognized" if it's truly a recognition failure
-      // Don't show it for successful payment request creation
-      if (data.message && (
-        data.message.toLowerCase().includes('payment request created') ||
-        data.message.toLowerCase().includes('sent to customer') ||
-        data.message.toLowerCase().includes('payment initiated')
-      )) {
-        // This is actually a success case, treat as generic success
-        const requestId = data.request?.request_id || data.request_id;
-        updateState({
-          success: true,
-          verifiedUserName: undefined,
-          faceScanId: data.face_scan_id || '',
-        });
-
-        setTimeout(() => {
-          resetState();
-          onVerificationSuccess(
-            'payment_request_created',
-            data.face_scan_id || '',
-            false,
-            requestId
-          );
-        }, 1500);
+    switch (outcome.kind) {
+      case 'PinRequired':
+        pinAttemptRef.current = 0;
         return;
-      }
-
-      // True error case
-      const errorMessage = data.message || 'Face not recognized. Please try again.';
-      updateState({ error: errorMessage });
-
-      showAlert(
-        'Face Not Recognized',
-        'The customer\'s face could not be verified. Please ensure good lighting and ask them to look directly at the camera.',
-        [
-          { text: 'OK', onPress: resetState },
-        ],
-        'error'
-      );
+      case 'AutoPaid':
+      case 'RequestSent':
+        completeVerification(outcome, SUCCESS_HANDOFF_DELAY);
+        return;
+      default:
+        showFailure(outcome);
+    }
+  };
 
-      // Defer parent state update to avoid React warning
-      setTimeout(() => {
-        onVerificationError(errorMessage);
-      }, 0);
-      return;
+  const showFailure = (outcome: VerificationFailure, retryable: boolean = false) => {
+    switch (outcome.kind) {
+      case 'NoMatch':
+        showAlert(
+          'Face Not Recognized',
+          'The customer\'s face could not be verified. Scan again, send a request to their phone, or show a QR code they can scan in the FacePe app.',
+          [
+            { text: 'Retry', style: 'cancel', onPress: resetState },
+            { text: 'Phone', onPress: () => setShowPhoneRequest(true) },
+            { text: 'QR Code', onPress: () => sendFallbackRequest('qr') },
+          ],
+          'error'
+        );
+        break;
+      case 'NoFace':
+        showAlert(
+          'No Face Detected',
+          outcome.message,
+          [{ text: 'Try Again', onPress: resetState }],
+          'warning'
+        );
+        break;
+      case 'PinAttemptsExhausted':
+        showAlert(
+          'Payment Cancelled',
+          outcome.message,
+          [{ text: 'OK', onPress: resetState }],
+          'error'
+        );
+        break;
+      case 'ServiceError':
+        showAlert(
+          'Face Scan Failed',
+          outcome.message,
+          [{ text: 'Try Again', onPress: resetState }],
+          'error'
+        );
+        break;
     }
 
-    // Fallback for unexpected response
-    const errorMessage = 'Unexpected response from verification service. Please try again.';
-    updateState({ error: errorMessage });
-    // Defer parent state update to avoid React warning
-    setTimeout(() => {
-      onVerificationError(errorMessage);
-    }, 0);
+    notifyError(outcome.message, retryable);
   };
 
-  const handleFaceVerificationError = async (error: any) => {
+  const handleFaceVerificationError = (error: any) => {
     let errorMessage = ERROR_MESSAGES.FACE_SCAN_FAILED;
 
     if (error.message?.includes('timeout')) {
       errorMessage = ERROR_MESSAGES.TIMEOUT_ERROR;
     } else if (error.message?.includes('Network')) {
       errorMessage = ERROR_MESSAGES.NETWORK_ERROR;
+    } else if (error?.response?.status === 409) {
+      errorMessage = ERROR_MESSAGES.REQUEST_IN_PROGRESS;
     }
 
-    updateState({ error: errorMessage });
+    dispatch({ type: 'REQUEST_FAILED', message: errorMessage });
+    showFailure({ kind: 'ServiceError', message: errorMessage }, isRetryableError(error));
+  };
 
-    showAlert(
-      'Face Scan Failed',
-      errorMessage,
-      [
-        { text: 'Try Again', onPress: resetState }
-      ],
-      'error'
-    );
+  /**
+   * Charge without a face match: a plain payment request the customer approves in their app.
+   * It is tracked like a face-initiated request, so the sale still completes and shows in history.
+   */
+  const sendFallbackRequest = async (channel: PaymentRequestChannel, customerPhone?: string) => {
+    const controller = startRequest();
+    setIsSendingFallback(true);
 
-    // Defer parent state update to avoid React warning
-    setTimeout(() => {
-      onVerificationError(errorMessage);
-    }, 0);
+    try {
+      const requestKey = idempotencyKey
+        ? deriveIdempotencyKey(idempotencyKey, 'fallback', channel, customerPhone || '')
+        : undefined;
+      const { data } = await apiService.merchant.createPaymentRequest(
+        {
+          channel,
+          customer_phone: customerPhone,
+          amount,
+          subtotal_amount: amount - tipAmount,
+          tip_amount: tipAmount,
+          currency,
+          description,
+          line_items: lineItems,
+        },
+        requestKey,
+        { signal: controller.signal }
+      );
+
+      if (!data?.request_id || (channel === 'qr' && !data.payment_url)) {
+        showAlert('Request Not Sent', ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE, [{ text: 'OK' }], 'error');
+        return;
+      }
+
+      setShowPhoneRequest(false);
+      completeVerification(
+        {
+          kind: 'RequestSent',
+          faceScanId: '',
+          requestId: data.request_id,
+          expiresAt: data.expires_at,
+          paymentUrl: data.payment_url,
+        },
+        0
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      showAlert(
+        'Request Not Sent',
+        getUserFriendlyErrorMessage(error, 'Could not create the payment request. Please try again.'),
+        [{ text: 'OK' }],
+        'error'
+      );
+    } finally {
+      setIsSendingFallback(false);
+    }
   };
 
   const handlePinVerification = async (pin: string): Promise<boolean> => {
-    updateState({ pinVerificationLoading: true });
+    if (state.status !== 'awaitingPin') return false;
+
+    const { faceScanId, candidateUserId } = state;
+    dispatch({ type: 'PIN_SUBMITTED' });
+    const controller = startRequest();
 
     try {
-      const pinRequest: any = {
-        face_scan_id: state.faceScanId,
+      const pinRequest: PinVerificationRequest = {
+        face_scan_id: faceScanId,
+        candidate_user_id: candidateUserId,
         pin: pin,
         amount: amount,
+        subtotal_amount: amount - tipAmount,
+        tip_amount: tipAmount,
         currency: currency,
         description: description,
+        line_items: lineItems,
       };
 
-      const response = await apiService.face.verifyPin(pinRequest);
-      const data = response.data;
-
-      if (data.success) {
-        // PIN verification successful
-        if ((data as any).matches && (data as any).matches.length > 0) {
-          const userId = (data as any).matches[0].user_id;
-          const userName = (data as any).matches[0].name;
-          const requestId = (data as any).request?.request_id || (data as any).request_id;
-
-          updateState({
-            success: true,
-            verifiedUserName: userName,
-            pinVerificationLoading: false,
-          });
-
-          // Show success briefly before proceeding
-          setTimeout(() => {
-            resetState();
-            onVerificationSuccess(
-              userId,
-              state.faceScanId,
-              (data as any).auto_payment === true,
-              requestId
-            );
-          }, 1000);
+      const pinKey = idempotencyKey
+        ? deriveIdempotencyKey(idempotencyKey, 'pin', faceScanId, pinAttemptRef.current)
+        : undefined;
+
+      let pinResponse: PinVerificationResponse;
+      try {
+        pinResponse = (await apiService.face.verifyPin(pinRequest, pinKey, { signal: controller.signal })).data;
+      } catch (error: any) {
+        const answer = getDuplicateResponse<PinVerificationResponse>(error) || getPinRejection(error);
+        if (!answer) throw error;
+        pinResponse = answer;
+      }
+
+      const outcome = parsePinVerificationResponse(pinResponse, faceScanId);
+      dispatch({ type: 'PIN_OUTCOME', outcome });
 
+      switch (outcome.kind) {
+        case 'AutoPaid':
+        case 'RequestSent':
+          completeVerification(outcome, PIN_SUCCESS_HANDOFF_DELAY);
           return true;
-        } else {
-          updateState({ pinVerificationLoading: false });
+        case 'ServiceError':
+          pinAttemptRef.current += 1;
+          showAlert('Verification Error', outcome.message, [{ text: 'OK' }], 'error');
+          return false;
+        case 'PinAttemptsExhausted':
+          showFailure(outcome);
+          return false;
+        default:
+          pinAttemptRef.current += 1;
           return false;
-        }
-      } else {
-        updateState({ pinVerificationLoading: false });
-        return false;
       }
     } catch (error: any) {
+      if (controller.signal.aborted) return false;
+      if (!isRetryableError(error)) {
+        pinAttemptRef.current += 1;
+      }
       // Handle specific HTTP error codes
       const errorMessage = getUserFriendlyErrorMessage(error, 'Payment verification failed. Please try again.');
       showAlert(
@@ -519,23 +666,39 @@ export default function FaceVerificationComponent({
         'error'
       );
 
-      updateState({ pinVerificationLoading: false });
+      dispatch({ type: 'PIN_OUTCOME', outcome: { kind: 'ServiceError', message: errorMessage } });
       return false;
     }
   };
 
-  const handlePinModalClose = () => {
-    updateState({ showPinModal: false });
+  const handlePinModalCancel = () => {
+    dispatch({ type: 'CANCEL' });
+    notifyError('PIN verification cancelled by user');
   };
 
-  const handlePinModalCancel = () => {
-    updateState({ showPinModal: false });
-    // Defer parent state update to avoid React warning
-    setTimeout(() => {
-      onVerificationError('PIN verification cancelled by user');
-    }, 0);
+  const handlePinModalClose = () => {
+    // The modal also closes itself after a successful PIN, which the machine has already handled
+    if (state.status === 'awaitingPin') {
+      handlePinModalCancel();
+    }
   };
 
+  const errorMessage = state.status === 'failed' ? state.outcome.message : null;
+  const verifiedUserName = state.status === 'succeeded' ? state.outcome.userName : undefined;
+  const isVerifyingFace = state.status === 'verifying';
+
+  // Fire the shutter once the face holds still in the circle; the capture button stays as a fallback
+  const isAutoCaptureEnabled = showCamera && !isCheckingLiveness && !isVerifyingFace;
+  const { placement, isSteady } = useFaceAutoCapture(
+    isAutoCaptureEnabled,
+    capturePreviewFrame,
+    faceDetector,
+    handleTakePhoto
+  );
+  const placementGuidance = isAutoCaptureEnabled && placement ? FACE_PLACEMENT_GUIDANCE[placement] : null;
+  const cameraGuidance = cameraMessage || placementGuidance;
+  const isGuidanceWarning = cameraMessage ? !isCheckingLiveness : placement === 'multiple';
+
   return (
     <View style={styles.container}>
       {/* Instructions */}
@@ -565,42 +728,42 @@ export default function FaceVerificationComponent({
         <TouchableOpacity
           style={[
             styles.actionButton,
-            (disabled || state.loading) && styles.actionButtonDisabled,
+            (disabled || isBusy) && styles.actionButtonDisabled,
           ]}
           onPress={handleImageCapture}
-          disabled={disabled || state.loading}
+          disabled={disabled || isBusy}
         >
           <LinearGradient
             colors={Colors.gradients.primary}
             style={styles.actionButtonGradient}
           >
-            {state.loading ? (
+            {isVerifyingFace ? (
               <ActivityIndicator size="small" color={Colors.text.white} />
             ) : (
               <Ionicons name="camera" size={24} color={Colors.text.white} />
             )}
             <Text style={styles.actionButtonText}>
-              {state.loading ? 'Verifying...' : 'Scan Face'}
+              {isVerifyingFace ? 'Verifying...' : 'Scan Face'}
             </Text>
           </LinearGradient>
         </TouchableOpacity>
       </View>
 
       {/* Error Display */}
-      {state.error && (
+      {errorMessage && (
         <View style={styles.errorContainer}>
           <Ionicons name="alert-circle" size={20} color={Colors.error} />
-          <Text style={styles.errorText}>{state.error}</Text>
+          <Text style={styles.errorText}>{errorMessage}</Text>
         </View>
       )}
 
       {/* Success Display */}
-      {state.success && (
+      {state.status === 'succeeded' && (
         <View style={styles.successContainer}>
           <Ionicons name="checkmark-circle" size={20} color={Colors.success} />
           <Text style={styles.successText}>
-            {state.verifiedUserName
-              ? `Welcome, ${state.verifiedUserName}!`
+            {verifiedUserName
+              ? `Welcome, ${verifiedUserName}!`
               : 'Verification successful!'
             }
           </Text>
@@ -617,12 +780,30 @@ export default function FaceVerificationComponent({
 
       {/* PIN Verification Modal */}
       <PinVerificationModal
-        visible={state.showPinModal}
+        visible={isAwaitingPin(state)}
         onClose={handlePinModalClose}
         onVerify={handlePinVerification}
         onCancel={handlePinModalCancel}
-        loading={state.pinVerificationLoading}
-        message="Multiple similar faces detected. Please enter your PIN to confirm your identity."
+        loading={state.status === 'verifyingPin'}
+        attemptsRemaining={state.status === 'awaitingPin' || state.status === 'verifyingPin' ? state.attemptsRemaining : undefined}
+        lockedUntil={state.status === 'awaitingPin' ? state.lockedUntil : undefined}
+        shuffleKeys={settings.shufflePinPad}
+        candidates={settings.matchHintsEnabled && state.status === 'awaitingPin' ? state.candidates : undefined}
+        onSelectCandidate={(userId) => dispatch({ type: 'CANDIDATE_SELECTED', userId })}
+        startInCustomerMode={customerFacing}
+        requireMerchantPin={settings.customerDisplay}
+        pinLength={state.status === 'awaitingPin' || state.status === 'verifyingPin' ? state.pinLength : undefined}
+        message={state.status === 'awaitingPin' || state.status === 'verifyingPin' ? state.prompt : undefined}
+        pinError={state.status === 'awaitingPin' ? state.pinError : undefined}
+      />
+
+      {/* Fallback when the face is not recognized */}
+      <PhonePaymentRequestModal
+        visible={showPhoneRequest}
+        onClose={() => setShowPhoneRequest(false)}
+        onSubmit={(phoneNumber) => sendFallbackRequest('phone', phoneNumber)}
+        amountLabel={formatMoney(amount, currency)}
+        loading={isSendingFallback}
       />
 
       {/* Camera Modal - Custom UI like FacePe */}
@@ -641,7 +822,7 @@ export default function FaceVerificationComponent({
           >
             <TouchableOpacity
               style={styles.cameraBackButton}
-              onPress={() => setShowCamera(false)}
+              onPress={closeCamera}
             >
               <Ionicons name="close" size={24} color="#FFFFFF" />
             </TouchableOpacity>
@@ -655,26 +836,119 @@ export default function FaceVerificationComponent({
           <View style={styles.cameraContainer}>
             <View style={styles.blueBoxContainer}>
               {/* Circle Container with Camera - Centered in blue box */}
-              <View style={styles.circleWrapper}>
+              <Pressable style={styles.circleWrapper} onPress={handleFocusTap}>
                 {/* Camera View - Circular */}
-                <CameraView
-                  ref={cameraRef}
-                  style={[styles.cameraViewCircle, {
+                {device ? (
+                  <Camera
+                    ref={cameraRef}
+                    style={[styles.cameraViewCircle, {
+                      width: CIRCLE_SIZE,
+                      height: CIRCLE_SIZE,
+                      borderRadius: CIRCLE_SIZE / 2,
+                    }]}
+                    device={device}
+                    isActive={showCamera}
+                    photo
+                    // Preview snapshots come from the video pipeline on iOS
+                    video
+                    torch={isTorchOn ? 'on' : 'off'}
+                    exposure={exposure}
+                  />
+                ) : (
+                  <View style={[styles.cameraViewCircle, {
                     width: CIRCLE_SIZE,
                     height: CIRCLE_SIZE,
                     borderRadius: CIRCLE_SIZE / 2,
-                  }]}
-                  facing="front"
-                />
+                  }]} />
+                )}
 
                 {/* Circle Frame Border */}
                 <View style={[styles.circleFrameBorder, {
                   width: CIRCLE_SIZE,
                   height: CIRCLE_SIZE,
                   borderRadius: CIRCLE_SIZE / 2,
-                }]} pointerEvents="none" />
-              </View>
+                }, isAutoCaptureEnabled && placement === 'centered' && styles.circleFrameBorderCentered]} pointerEvents="none" />
+
+                {/* Auto Capture Countdown */}
+                <View style={styles.countdownRing} pointerEvents="none">
+                  <CountdownRing
+                    size={CIRCLE_SIZE}
+                    strokeWidth={6}
+                    color={Colors.success}
+                    duration={AUTO_CAPTURE_CONFIG.STEADY_DURATION}
+                    active={isAutoCaptureEnabled && isSteady}
+                  />
+                </View>
+
+                {/* Tap-to-Focus Marker */}
+                {focusPoint && (
+                  <View
+                    style={[styles.focusMarker, {
+                      left: focusPoint.x - FOCUS_MARKER_SIZE / 2,
+                      top: focusPoint.y - FOCUS_MARKER_SIZE / 2,
+                    }]}
+                    pointerEvents="none"
+                  />
+                )}
+              </Pressable>
             </View>
+
+            {/* Camera Controls */}
+            <View style={styles.cameraControls}>
+              <TouchableOpacity
+                style={styles.cameraControlButton}
+                onPress={handleFlipCamera}
+                disabled={isCheckingLiveness || isVerifyingFace}
+              >
+                <Ionicons name="camera-reverse-outline" size={24} color={Colors.primary} />
+                <Text style={styles.cameraControlText}>{cameraFacing === 'front' ? 'Front' : 'Back'}</Text>
+              </TouchableOpacity>
+              {cameraFacing === 'back' && device?.hasTorch && (
+                <TouchableOpacity
+                  style={[styles.cameraControlButton, isTorchOn && styles.cameraControlButtonActive]}
+                  onPress={() => setIsTorchOn(on => !on)}
+                >
+                  <Ionicons name={isTorchOn ? 'flash' : 'flash-off-outline'} size={24} color={isTorchOn ? Colors.text.white : Colors.primary} />
+                  <Text style={[styles.cameraControlText, isTorchOn && styles.cameraControlTextActive]}>Torch</Text>
+                </TouchableOpacity>
+              )}
+              {canAdjustExposure && (
+                <View style={styles.cameraControlButton}>
+                  <TouchableOpacity
+                    onPress={() => adjustExposure(-1)}
+                    disabled={exposureStep <= -EXPOSURE_STEPS}
+                    accessibilityLabel="Darker"
+                  >
+                    <Ionicons name="remove-circle-outline" size={24} color={Colors.primary} />
+                  </TouchableOpacity>
+                  <Ionicons name="sunny-outline" size={20} color={Colors.primary} />
+                  <Text style={styles.cameraControlText}>
+                    {exposureStep > 0 ? `+${exposureStep}` : exposureStep}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => adjustExposure(1)}
+                    disabled={exposureStep >= EXPOSURE_STEPS}
+                    accessibilityLabel="Brighter"
+                  >
+                    <Ionicons name="add-circle-outline" size={24} color={Colors.primary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            {/* Liveness Prompt and Capture Guidance */}
+            {cameraGuidance && (
+              <View style={[styles.cameraBanner, isGuidanceWarning && styles.cameraBannerError]}>
+                <Ionicons
+                  name={isGuidanceWarning ? 'alert-circle' : isCheckingLiveness ? 'eye' : 'scan-outline'}
+                  size={20}
+                  color={isGuidanceWarning ? Colors.error : Colors.primary}
+                />
+                <Text style={[styles.cameraBannerText, isGuidanceWarning && styles.cameraBannerTextError]}>
+                  {cameraGuidance}
+                </Text>
+              </View>
+            )}
           </View>
 
           {/* Take Photo Button */}
@@ -682,7 +956,7 @@ export default function FaceVerificationComponent({
             <TouchableOpacity
               style={styles.takePhotoButton}
               onPress={handleTakePhoto}
-              disabled={state.loading}
+              disabled={isVerifyingFace || isCheckingLiveness}
             >
               <LinearGradient
                 colors={Colors.gradients.primary}
@@ -691,7 +965,7 @@ export default function FaceVerificationComponent({
                 end={{ x: 1, y: 1 }}
               >
                 <Text style={styles.takePhotoButtonText}>
-                  {state.loading ? 'Processing...' : 'Capture Face'}
+                  {isCheckingLiveness ? 'Checking Liveness...' : isVerifyingFace ? 'Processing...' : 'Capture Face'}
                 </Text>
               </LinearGradient>
             </TouchableOpacity>
@@ -879,6 +1153,69 @@ const styles = StyleSheet.create({
     borderColor: '#FFFFFF',
     backgroundColor: 'transparent',
   },
+  focusMarker: {
+    position: 'absolute',
+    width: FOCUS_MARKER_SIZE,
+    height: FOCUS_MARKER_SIZE,
+    borderWidth: 2,
+    borderColor: Colors.warning,
+    borderRadius: 8,
+  },
+  cameraControls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: hp(2),
+  },
+  cameraControlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: Colors.accent.lavender,
+  },
+  cameraControlButtonActive: {
+    backgroundColor: Colors.primary,
+  },
+  cameraControlText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  cameraControlTextActive: {
+    color: Colors.text.white,
+  },
+  circleFrameBorderCentered: {
+    borderColor: Colors.success,
+  },
+  countdownRing: {
+    position: 'absolute',
+  },
+  cameraBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: hp(2),
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.accent.lavender,
+    width: wp(85),
+  },
+  cameraBannerError: {
+    backgroundColor: `${Colors.error}15`,
+  },
+  cameraBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  cameraBannerTextError: {
+    color: Colors.error,
+  },
   buttonContainer: {
     backgroundColor: '#FFFFFF',
     paddingHorizontal: 24,
@@ -364,6 +364,8 @@ export default function FaceVerificationComponent({
         face_scan_id: state.faceScanId,
         pin: pin,
         amount: amount,
+        subtotal_amount: amount,
+        tip_amount: 0,
         currency: currency,
         description: description,
       };
@@ -0,0 +1,245 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import { Product, groupProductsByCategory } from '@/services/catalog/catalogService';
+import { CartLine, addToCart, getCartTotal, setCartQuantity } from '@/utils/cart';
+import { formatMoney } from '@/utils/money';
+
+interface CartBuilderProps {
+  products: Product[];
+  cart: CartLine[];
+  onChange: (cart: CartLine[]) => void;
+  onManageCatalog: () => void;
+  currency: string;
+  disabled?: boolean;
+}
+
+const CartBuilder: React.FC<CartBuilderProps> = ({ products, cart, onChange, onManageCatalog, currency, disabled = false }) => {
+  const formatPrice = (amount: number) => formatMoney(amount, currency);
+
+  if (products.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="pricetags-outline" size={32} color={Colors.text.muted} />
+        <Text style={styles.emptyText}>Your catalog is empty</Text>
+        <TouchableOpacity style={styles.manageButton} onPress={onManageCatalog}>
+          <Text style={styles.manageButtonText}>Add Products</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {/* Catalog */}
+      {groupProductsByCategory(products).map(group => (
+        <View key={group.category} style={styles.category}>
+          <Text style={styles.categoryTitle}>{group.category}</Text>
+          <View style={styles.productGrid}>
+            {group.products.map(product => (
+              <TouchableOpacity
+                key={product.id}
+                style={[styles.productChip, disabled && styles.disabled]}
+                onPress={() => onChange(addToCart(cart, product))}
+                disabled={disabled}
+              >
+                <Text style={styles.productName} numberOfLines={1}>{product.name}</Text>
+                <Text style={styles.productPrice}>{formatPrice(product.price)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity onPress={onManageCatalog} style={styles.manageLink}>
+        <Ionicons name="create-outline" size={16} color={Colors.primary} />
+        <Text style={styles.manageLinkText}>Manage catalog</Text>
+      </TouchableOpacity>
+
+      {/* Cart */}
+      {cart.length > 0 && (
+        <View style={styles.cartCard}>
+          {cart.map(line => (
+            <View key={line.product.id} style={styles.cartLine}>
+              <View style={styles.cartLineInfo}>
+                <Text style={styles.cartLineName} numberOfLines={1}>{line.product.name}</Text>
+                <Text style={styles.cartLinePrice}>{formatPrice(line.product.price)} each</Text>
+              </View>
+              <View style={styles.quantityControls}>
+                <TouchableOpacity
+                  style={styles.quantityButton}
+                  onPress={() => onChange(setCartQuantity(cart, line.product.id, line.quantity - 1))}
+                  disabled={disabled}
+                >
+                  <Ionicons name="remove" size={16} color={Colors.primary} />
+                </TouchableOpacity>
+                <Text style={styles.quantityText}>{line.quantity}</Text>
+                <TouchableOpacity
+                  style={styles.quantityButton}
+                  onPress={() => onChange(setCartQuantity(cart, line.product.id, line.quantity + 1))}
+                  disabled={disabled}
+                >
+                  <Ionicons name="add" size={16} color={Colors.primary} />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.cartLineTotal}>{formatPrice(line.product.price * line.quantity)}</Text>
+            </View>
+          ))}
+          <View style={styles.cartTotalRow}>
+            <Text style={styles.cartTotalLabel}>Total</Text>
+            <Text style={styles.cartTotalValue}>{formatPrice(getCartTotal(cart))}</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyState: {
+    alignItems: 'center',
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 16,
+    padding: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+  },
+  manageButton: {
+    backgroundColor: Colors.primary,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  manageButtonText: {
+    color: Colors.text.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  category: {
+    marginBottom: 16,
+  },
+  categoryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+    marginBottom: 8,
+  },
+  productGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  productChip: {
+    minWidth: 96,
+    maxWidth: '48%',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    backgroundColor: Colors.background.primary,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  productName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  productPrice: {
+    fontSize: 12,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  manageLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
+  manageLinkText: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  cartCard: {
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+  },
+  cartLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  cartLineInfo: {
+    flex: 1,
+  },
+  cartLineName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  cartLinePrice: {
+    fontSize: 12,
+    color: Colors.text.secondary,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quantityText: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  cartLineTotal: {
+    minWidth: 64,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  cartTotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: Colors.border.light,
+    marginTop: 8,
+    paddingTop: 12,
+  },
+  cartTotalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  cartTotalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+  },
+});
+
+export default CartBuilder;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { Animated, Easing, StyleSheet, View } from 'react-native';
+
+interface CountdownRingProps {
+  size: number;
+  strokeWidth: number;
+  color: string;
+  duration: number; // Time to fill the ring once active
+  active: boolean; // Fills clockwise from the top while true, resets when false
+}
+
+/**
+ * Circular progress drawn with two clipped half rings, no SVG needed.
+ * Each half ring rotates into its clip; the right half fills first, then the left.
+ */
+const CountdownRing: React.FC<CountdownRingProps> = ({ size, strokeWidth, color, duration, active }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    progress.stopAnimation();
+    if (!active) {
+      progress.setValue(0);
+      return;
+    }
+
+    Animated.timing(progress, {
+      toValue: 1,
+      duration,
+      easing: Easing.linear,
+      useNativeDriver: true,
+    }).start();
+  }, [active, duration, progress]);
+
+  const rightRotation = progress.interpolate({
+    inputRange: [0, 0.5, 1],
+    outputRange: ['45deg', '225deg', '225deg'],
+  });
+  const leftRotation = progress.interpolate({
+    inputRange: [0, 0.5, 1],
+    outputRange: ['45deg', '45deg', '225deg'],
+  });
+
+  const ring = {
+    width: size,
+    height: size,
+    borderRadius: size / 2,
+    borderWidth: strokeWidth,
+  };
+
+  return (
+    <View style={{ width: size, height: size }} pointerEvents="none">
+      {/* Right half: starts as the left half ring and rotates into view */}
+      <View style={[styles.clip, { width: size / 2, height: size, left: size / 2 }]}>
+        <Animated.View
+          style={[
+            styles.halfRing,
+            ring,
+            { left: -size / 2, borderLeftColor: color, borderBottomColor: color },
+            { transform: [{ rotate: rightRotation }] },
+          ]}
+        />
+      </View>
+
+      {/* Left half: starts as the right half ring and rotates into view */}
+      <View style={[styles.clip, { width: size / 2, height: size, left: 0 }]}>
+        <Animated.View
+          style={[
+            styles.halfRing,
+            ring,
+            { left: 0, borderTopColor: color, borderRightColor: color },
+            { transform: [{ rotate: leftRotation }] },
+          ]}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  clip: {
+    position: 'absolute',
+    top: 0,
+    overflow: 'hidden',
+  },
+  halfRing: {
+    position: 'absolute',
+    top: 0,
+    borderColor: 'transparent',
+  },
+});
+
+export default CountdownRing;
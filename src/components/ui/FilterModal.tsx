@@ -7,9 +7,10 @@ interface FilterModalProps {
   visible: boolean;
   onClose: () => void;
   children: React.ReactNode;
+  title?: string;
 }
 
-const FilterModal: React.FC<FilterModalProps> = ({ visible, onClose, children }) => {
+const FilterModal: React.FC<FilterModalProps> = ({ visible, onClose, children, title = 'Filters' }) => {
   const insets = useSafeAreaInsets();
 
   return (
@@ -23,7 +24,7 @@ const FilterModal: React.FC<FilterModalProps> = ({ visible, onClose, children })
         <TouchableOpacity style={styles.modalBackdrop} onPress={onClose} />
         <View style={[styles.modalContainer, { paddingBottom: insets.bottom || 16 }]}>
           <View style={styles.header}>
-            <Text style={styles.headerTitle}>Filters</Text>
+            <Text style={styles.headerTitle}>{title}</Text>
             <TouchableOpacity onPress={onClose} style={styles.closeButton}>
               <Ionicons name="close" size={24} color="#6B7280" />
             </TouchableOpacity>
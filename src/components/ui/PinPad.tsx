@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+
+interface PinPadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void; // Called once the last digit is entered
+  length?: number;
+  shuffle?: boolean; // Randomize digit positions, reshuffled after every full entry
+  disabled?: boolean;
+  error?: boolean;
+}
+
+type PadKey = string | 'clear' | 'backspace';
+
+const DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'];
+
+const shuffleDigits = (): string[] => {
+  const digits = [...DIGITS];
+  for (let i = digits.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [digits[i], digits[j]] = [digits[j], digits[i]];
+  }
+  return digits;
+};
+
+/**
+ * Phone-style layout: three rows of three digits, then clear, the last digit and backspace
+ */
+const buildLayout = (shuffle: boolean): PadKey[][] => {
+  const digits = shuffle ? shuffleDigits() : DIGITS;
+  return [
+    digits.slice(0, 3),
+    digits.slice(3, 6),
+    digits.slice(6, 9),
+    ['clear', digits[9], 'backspace'],
+  ];
+};
+
+/**
+ * In-app PIN keypad. Digits are never shown and the OS keyboard is never opened,
+ * so nothing on screen or in a keyboard cache reveals the PIN to bystanders.
+ */
+const PinPad: React.FC<PinPadProps> = ({
+  value,
+  onChange,
+  onComplete,
+  length = 4,
+  shuffle = false,
+  disabled = false,
+  error = false,
+}) => {
+  const [layout, setLayout] = useState(() => buildLayout(shuffle));
+  const wasCompleteRef = useRef(false);
+
+  // New positions for every attempt, so watching one entry does not give away the next
+  useEffect(() => {
+    if (value.length >= length) {
+      wasCompleteRef.current = true;
+    } else if (value.length === 0 && wasCompleteRef.current) {
+      wasCompleteRef.current = false;
+      if (shuffle) setLayout(buildLayout(true));
+    }
+  }, [value, length, shuffle]);
+
+  useEffect(() => {
+    setLayout(buildLayout(shuffle));
+  }, [shuffle]);
+
+  const handleKeyPress = (key: PadKey) => {
+    if (disabled) return;
+
+    if (key === 'clear') {
+      onChange('');
+      return;
+    }
+    if (key === 'backspace') {
+      onChange(value.slice(0, -1));
+      return;
+    }
+    if (value.length >= length) return;
+
+    const next = value + key;
+    onChange(next);
+    if (next.length === length) {
+      onComplete?.(next);
+    }
+  };
+
+  const renderKey = (key: PadKey) => {
+    const isAction = key === 'clear' || key === 'backspace';
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.key, isAction && styles.actionKey, disabled && styles.keyDisabled]}
+        onPress={() => handleKeyPress(key)}
+        disabled={disabled || (isAction && !value)}
+        activeOpacity={0.6}
+        accessibilityRole="button"
+        accessibilityLabel={key === 'clear' ? 'Clear PIN' : key === 'backspace' ? 'Delete last digit' : key}
+      >
+        {key === 'backspace' ? (
+          <Ionicons name="backspace-outline" size={24} color={Colors.text.secondary} />
+        ) : key === 'clear' ? (
+          <Text style={styles.actionKeyText}>Clear</Text>
+        ) : (
+          <Text style={styles.keyText}>{key}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Masked entry */}
+      <View
+        style={styles.dots}
+        accessible
+        accessibilityLabel={`${value.length} of ${length} digits entered`}
+      >
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              index < value.length && styles.dotFilled,
+              error && styles.dotError,
+            ]}
+          />
+        ))}
+      </View>
+
+      {/* Keypad */}
+      <View style={styles.keypad}>
+        {layout.map((row, rowIndex) => (
+          <View key={rowIndex} style={styles.row}>
+            {row.map(renderKey)}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    width: '100%',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 24,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: Colors.border.medium,
+  },
+  dotFilled: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  dotError: {
+    borderColor: Colors.error,
+  },
+  keypad: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  key: {
+    width: 72,
+    height: 56,
+    borderRadius: 12,
+    backgroundColor: Colors.background.secondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionKey: {
+    backgroundColor: 'transparent',
+  },
+  keyDisabled: {
+    opacity: 0.4,
+  },
+  keyText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  actionKeyText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text.secondary,
+  },
+});
+
+export default PinPad;
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import createQRCode from 'qrcode-generator';
+
+interface QRCodeProps {
+  value: string;
+  size: number; // Outer size including the quiet zone
+  color?: string;
+  backgroundColor?: string;
+}
+
+const QUIET_ZONE = 2; // Modules of blank border scanners need around the code
+
+/**
+ * QR code drawn with plain views. Each row is split into runs of the same color,
+ * so a typical payment link renders with a few hundred views instead of one per module.
+ */
+const QRCode: React.FC<QRCodeProps> = ({ value, size, color = '#000000', backgroundColor = '#FFFFFF' }) => {
+  const rows = useMemo(() => {
+    const qr = createQRCode(0, 'M');
+    qr.addData(value);
+    qr.make();
+
+    const count = qr.getModuleCount();
+    return Array.from({ length: count }, (_, row) => {
+      const runs: { dark: boolean; length: number }[] = [];
+      for (let col = 0; col < count; col++) {
+        const dark = qr.isDark(row, col);
+        const last = runs[runs.length - 1];
+        if (last && last.dark === dark) {
+          last.length += 1;
+        } else {
+          runs.push({ dark, length: 1 });
+        }
+      }
+      return runs;
+    });
+  }, [value]);
+
+  // Whole pixels per module keep the edges crisp; the quiet zone absorbs the remainder
+  const cellSize = Math.max(1, Math.floor(size / (rows.length + QUIET_ZONE * 2)));
+  const codeSize = cellSize * rows.length;
+
+  return (
+    <View
+      style={[styles.container, { width: size, height: size, backgroundColor }]}
+      accessibilityRole="image"
+      accessibilityLabel="Payment QR code"
+    >
+      <View style={{ width: codeSize, height: codeSize }}>
+        {rows.map((runs, rowIndex) => (
+          <View key={rowIndex} style={styles.row}>
+            {runs.map((run, runIndex) => (
+              <View
+                key={runIndex}
+                style={{
+                  width: run.length * cellSize,
+                  height: cellSize,
+                  backgroundColor: run.dark ? color : backgroundColor,
+                }}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+});
+
+export default QRCode;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import Colors from '@/constants/colors';
+import { TipSelection, getTipAmount } from '@/utils/tips';
+import { formatAmountInput, formatMoney, getCurrencySymbol, parseAmountInput } from '@/utils/money';
+
+interface TipSelectorProps {
+  subtotal: number; // Minor units of currency
+  currency: string;
+  presets: number[]; // Percentages
+  selection: TipSelection;
+  onChange: (selection: TipSelection) => void;
+  disabled?: boolean;
+}
+
+const TipSelector: React.FC<TipSelectorProps> = ({ subtotal, currency, presets, selection, onChange, disabled = false }) => {
+  const [customText, setCustomText] = useState('');
+
+  const handleCustomChange = (text: string) => {
+    setCustomText(text);
+    onChange({ type: 'custom', amount: parseAmountInput(text, currency) ?? 0 });
+  };
+
+  const renderOption = (key: string, label: string, caption: string | null, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.optionLabel, selected && styles.optionLabelSelected]}>{label}</Text>
+      {caption && (
+        <Text style={[styles.optionCaption, selected && styles.optionLabelSelected]}>{caption}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.options}>
+        {renderOption('none', 'No tip', null, selection.type === 'none', () => onChange({ type: 'none' }))}
+        {presets.map(percent =>
+          renderOption(
+            `percent-${percent}`,
+            `${percent}%`,
+            formatMoney(getTipAmount({ type: 'percent', percent }, subtotal), currency),
+            selection.type === 'percent' && selection.percent === percent,
+            () => onChange({ type: 'percent', percent })
+          )
+        )}
+        {renderOption('custom', 'Custom', null, selection.type === 'custom', () => handleCustomChange(customText))}
+      </View>
+
+      {selection.type === 'custom' && (
+        <View style={styles.customContainer}>
+          <Text style={styles.customSymbol}>{getCurrencySymbol(currency)}</Text>
+          <TextInput
+            style={styles.customInput}
+            value={customText}
+            onChangeText={handleCustomChange}
+            placeholder={formatAmountInput(0, currency)}
+            placeholderTextColor={Colors.text.muted}
+            keyboardType="numeric"
+            editable={!disabled}
+            autoFocus
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexGrow: 1,
+    minWidth: 72,
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    backgroundColor: Colors.background.secondary,
+  },
+  optionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.accent.lavender,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  optionLabelSelected: {
+    color: Colors.primary,
+  },
+  optionCaption: {
+    fontSize: 12,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  customContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    marginTop: 12,
+  },
+  customSymbol: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text.primary,
+    marginRight: 8,
+  },
+  customInput: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text.primary,
+    paddingVertical: 12,
+  },
+});
+
+export default TipSelector;
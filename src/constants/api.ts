@@ -2,6 +2,7 @@
 export const API_CONFIG = {
   BACKEND_URL: 'https://api.dev.facepe.ai/mb',
   FACE_API_URL: 'https://api.dev.facepe.ai/mb',
+  SOCKET_URL: 'wss://api.dev.facepe.ai/mb',
   TIMEOUT: 30000, // 30 seconds
   
   // Request headers
@@ -58,6 +59,8 @@ export const BACKEND_ENDPOINTS = {
     TRANSACTIONS: '/transactions',
     VERIFY_FACE: '/verify-face',
     VERIFY_PIN: '/verify-pin',
+    RECEIPTS: '/receipts',
+    STAFF: '/staff',
   },
   
   // Payments (STATUS kept if used elsewhere)
@@ -69,6 +72,23 @@ export const BACKEND_ENDPOINTS = {
   HEALTH: '/health',
 };
 
+// Payment status tracking
+export const PAYMENT_STATUS_CONFIG = {
+  POLL_INITIAL_INTERVAL: 2000, // First poll after 2 seconds
+  POLL_MAX_INTERVAL: 15000, // Never wait longer than 15 seconds between polls
+  POLL_BACKOFF_FACTOR: 1.5, // Slow down while nothing changes
+  POLL_ERROR_BACKOFF_FACTOR: 2, // Slow down faster while requests fail
+  SOCKET_MAX_RECONNECTS: 3,
+  SOCKET_RECONNECT_DELAY: 5000,
+};
+
+// Customer PIN entry
+export const PIN_CONFIG = {
+  MIN_LENGTH: 4,
+  MAX_LENGTH: 6,
+  DEFAULT_LENGTH: 4, // Used when verify-face does not say how long the customer's PIN is
+};
+
 // Face Recognition API Endpoints
 export const FACE_API_ENDPOINTS = {
   VERIFY: '/verify-face',
@@ -87,11 +107,16 @@ export const ERROR_MESSAGES = {
   NO_FACE_DETECTED: 'No face detected. Please ensure your face is clearly visible in the frame.',
   NO_MATCH_FOUND: 'Face not recognized. Please try again or register.',
   MULTIPLE_FACES_DETECTED: 'Multiple similar faces detected. Please enter your PIN to confirm your identity.',
+  PIN_REQUIRED: 'Please enter your PIN to confirm this payment.',
   INVALID_PIN: 'Invalid PIN. Please try again.',
   PIN_VERIFICATION_FAILED: 'PIN verification failed. Please try again.',
+  PIN_LOCKED: 'Too many incorrect PINs. Please wait before trying again.',
+  PIN_ATTEMPTS_EXHAUSTED: 'Too many incorrect PINs. This payment has been cancelled.',
   IMAGE_TOO_LARGE: 'Image file too large. Please upload an image under 10MB.',
   VERIFICATION_SERVICE_UNAVAILABLE: 'Verification service is temporarily unavailable. Please try again later.',
   FACE_SCAN_FAILED: 'Please ensure good lighting and try again.',
+  UNRECOGNIZED_VERIFICATION_RESPONSE: 'Unexpected response from verification service. Please try again.',
+  REQUEST_IN_PROGRESS: 'A previous attempt for this sale is still processing. Please try again in a moment.',
 };
 
 // Success Messages
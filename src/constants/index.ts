@@ -1,3 +1,5 @@
 // Constants
 export { default as Colors } from './colors';
 export * from './api';
+export * from './settings';
+export * from './vision';
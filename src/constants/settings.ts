@@ -0,0 +1,26 @@
+import type { MerchantSettings } from '@/services/storage/storageService';
+
+// Used until the merchant changes anything, and to fill in settings added after a save
+export const DEFAULT_MERCHANT_SETTINGS: MerchantSettings = {
+  tipsEnabled: false,
+  tipPresets: [15, 18, 20],
+  cameraFacing: 'front',
+  shufflePinPad: false,
+  matchHintsEnabled: false,
+  customerDisplay: false,
+  printer: null,
+  autoPrintReceipts: false,
+  chargeCallbackOrigins: [],
+};
+
+export const TIP_CONFIG = {
+  MAX_PRESETS: 4,
+  MAX_PERCENT: 100,
+};
+
+export const PRINTER_CONFIG = {
+  DEFAULT_PORT: 9100, // Raw printing port used by ESC/POS network printers
+  CONNECT_TIMEOUT: 5000,
+  DISCOVERY_TIMEOUT: 400, // Per address while scanning the local subnet
+  DISCOVERY_CONCURRENCY: 32,
+};
@@ -0,0 +1,37 @@
+// Liveness challenge shown in the camera modal before the face image is uploaded
+export const LIVENESS_CONFIG = {
+  FRAME_INTERVAL: 250, // Delay between preview snapshots
+  TIMEOUT: 8000, // Give up if the challenge is not completed in time
+  EYE_OPEN_THRESHOLD: 0.7, // Both eyes above this count as open
+  EYE_CLOSED_THRESHOLD: 0.3, // Both eyes below this count as closed
+  HEAD_TURN_DEGREES: 20, // Yaw change from the first frame needed to pass a head turn
+  MIN_SCORE: 0.5, // Verdicts below this score are treated as failed
+};
+
+// Checks on the captured 640x640 frame before it is uploaded
+export const QUALITY_THRESHOLDS = {
+  DOWNSAMPLE: 2, // Pixels are averaged in 2x2 blocks, so sharpness is measured at 320x320
+  MIN_BRIGHTNESS: 60, // Mean luma of the face, 0..255
+  MAX_BRIGHTNESS: 210,
+  MIN_CONTRAST: 20, // Standard deviation of luma
+  MIN_SHARPNESS: 40, // Laplacian variance at the downsampled size
+  MAX_CENTER_OFFSET: 0.2, // Fraction of the image size
+  MIN_FACE_SIZE: 0.25, // Face width as a fraction of the image width
+  MAX_FACE_SIZE: 0.9,
+};
+
+// Fires the shutter once one face has held still inside the guide circle
+export const AUTO_CAPTURE_CONFIG = {
+  FRAME_INTERVAL: 300, // Delay between preview snapshots
+  STEADY_DURATION: 1200, // How long the face must stay centered and still
+  MAX_CENTER_OFFSET: 0.15, // Face center distance from the circle center, fraction of the circle diameter
+  MIN_FACE_SIZE: 0.35, // Face width as a fraction of the circle diameter
+  MAX_FACE_SIZE: 0.85,
+  MAX_MOVEMENT: 0.05, // Face center movement between frames still counted as steady
+};
+
+// Square crop around the detected face for the uploaded image
+export const FACE_CROP_CONFIG = {
+  PADDING: 0.5, // Added on every side, as a fraction of the face size
+  OUTPUT_SIZE: 640,
+};
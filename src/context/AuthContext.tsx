@@ -1,7 +1,22 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import { UserData, getStoredTokens, getUserData, clearAllData, storeTokens, storeUserData } from '../services/storage/storageService';
+import {
+  UserData,
+  StaffSession,
+  getStoredTokens,
+  getUserData,
+  clearAllData,
+  storeTokens,
+  storeUserData,
+  getPendingPayments,
+  getStaffSession,
+  storeStaffSession,
+  clearStaffSession,
+} from '../services/storage/storageService';
 import api from '../services/api/apiService';
+import { DEFAULT_CURRENCY } from '../utils/money';
+import { LOWEST_ROLE, Permission, hasPermission } from '../utils/permissions';
+import type { StaffMember, StaffRole } from '../types';
 
 // Types
 interface AuthContextType {
@@ -9,6 +24,13 @@ interface AuthContextType {
   isAuthenticated: boolean;
   user: UserData | null;
   isLoading: boolean;
+  // Currency of the merchant's Stripe account, used for every amount in the app
+  currency: string;
+  // Payment requests were still awaiting customers when the app was last closed
+  hasPendingPayments: boolean;
+  // Employee at the counter; null means whoever signed in with the merchant password, who acts as owner
+  activeStaff: StaffMember | null;
+  role: StaffRole;
   
   // Registration flow state
   registrationStep: 'phone' | 'details' | 'mobile_verify' | 'stripe' | 'complete';
@@ -26,6 +48,8 @@ interface AuthContextType {
   refreshUserProfile: () => Promise<void>;
   setRegistrationStep: (step: 'phone' | 'details' | 'mobile_verify' | 'stripe' | 'complete') => void;
   setEmailToken: (token: string) => void;
+  switchStaff: (session: StaffSession) => Promise<boolean>;
+  can: (permission: Permission) => boolean;
 }
 
 interface RegisterData {
@@ -49,6 +73,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [registrationStep, setRegistrationStep] = useState<'phone' | 'details' | 'mobile_verify' | 'stripe' | 'complete'>('phone');
   const [emailToken, setEmailToken] = useState<string | null>(null);
+  const [hasPendingPayments, setHasPendingPayments] = useState(false);
+  const [activeStaff, setActiveStaff] = useState<StaffMember | null>(null);
+  const [fallbackRole, setFallbackRole] = useState<StaffRole>(LOWEST_ROLE);
 
   // Check authentication status on app start
   useEffect(() => {
@@ -85,8 +112,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           
           // Double-check that the profile data is valid and complete
           if (profileResponse.data && profileResponse.data.merchant_id && profileResponse.data.email) {
+            const pendingPayments = await getPendingPayments();
+            setHasPendingPayments(pendingPayments.length > 0);
+            await loadStaffSession();
             setIsAuthenticated(true);
-            setUser(userData);
+            setUser({ ...userData, currency: await fetchAccountCurrency(userData.currency) });
           } else {
             throw new Error('Invalid profile data received');
           }
@@ -113,17 +143,48 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Look up the account currency, keeping the last known one if Stripe cannot be reached
+  const fetchAccountCurrency = async (fallback?: string): Promise<string | undefined> => {
+    try {
+      const response = await api.stripe.getStatus();
+      const currency = response.data?.account_details?.currency;
+      return currency ? currency.toUpperCase() : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  // Restore the staff member at the counter. Without one the device acts as the owner only while
+  // no staff accounts exist, and drops to the lowest role when either lookup fails.
+  const loadStaffSession = async () => {
+    try {
+      const staffSession = await getStaffSession();
+      setActiveStaff(staffSession?.staff || null);
+      if (staffSession) return;
+
+      const staffResponse = await api.merchant.getStaff();
+      setFallbackRole(staffResponse.data.length === 0 ? 'owner' : LOWEST_ROLE);
+    } catch {
+      setActiveStaff(null);
+      setFallbackRole(LOWEST_ROLE);
+    }
+  };
+
   const forceLogout = async () => {
     try {
       await clearAllData();
       setIsAuthenticated(false);
       setUser(null);
+      setActiveStaff(null);
+      setFallbackRole(LOWEST_ROLE);
       setEmailToken(null);
       setRegistrationStep('phone');
     } catch (error) {
       // Even if clearing fails, reset state
       setIsAuthenticated(false);
       setUser(null);
+      setActiveStaff(null);
+      setFallbackRole(LOWEST_ROLE);
       setEmailToken(null);
       setRegistrationStep('phone');
     }
@@ -140,6 +201,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       };
       
       await storeTokens(tokens);
+      // The merchant password outranks any staff session left on the device
+      await clearStaffSession();
+      await loadStaffSession();
       
       // Get user profile
       const profileResponse = await api.merchant.getProfile();
@@ -151,6 +215,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         mobile_verified: profileResponse.data.mobile_verified,
         stripe_account_status: profileResponse.data.stripe_account_status,
         payout_enabled: profileResponse.data.payout_enabled,
+        currency: await fetchAccountCurrency(),
       };
       
       await storeUserData(userData);
@@ -176,6 +241,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       await clearAllData();
       setIsAuthenticated(false);
       setUser(null);
+      setActiveStaff(null);
+      setFallbackRole(LOWEST_ROLE);
       setEmailToken(null);
       setRegistrationStep('phone');
     }
@@ -205,6 +272,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           mobile_verified: profileResponse.data.mobile_verified,
           stripe_account_status: profileResponse.data.stripe_account_status,
           payout_enabled: profileResponse.data.payout_enabled,
+          currency: await fetchAccountCurrency(),
         };
         
         await storeUserData(userData);
@@ -341,6 +409,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         mobile_verified: profileResponse.data.mobile_verified,
         stripe_account_status: profileResponse.data.stripe_account_status,
         payout_enabled: profileResponse.data.payout_enabled,
+        currency: await fetchAccountCurrency(user?.currency),
       };
       
       await storeUserData(userData);
@@ -349,10 +418,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const switchStaff = async (session: StaffSession): Promise<boolean> => {
+    try {
+      await storeStaffSession(session);
+      setActiveStaff(session.staff);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const role: StaffRole = activeStaff?.role || fallbackRole;
+
+  const can = (permission: Permission): boolean => hasPermission(role, permission);
+
   const value: AuthContextType = {
     isAuthenticated,
     user,
     isLoading,
+    currency: user?.currency || DEFAULT_CURRENCY,
+    hasPendingPayments,
+    activeStaff,
+    role,
     registrationStep,
     emailToken,
     login,
@@ -366,6 +453,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setRegistrationStep,
     setEmailToken,
     refreshStripeOnboarding,
+    switchStaff,
+    can,
   };
 
   return (
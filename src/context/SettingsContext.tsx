@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { MerchantSettings, getMerchantSettings, storeMerchantSettings } from '../services/storage/storageService';
+import { DEFAULT_MERCHANT_SETTINGS } from '../constants/settings';
+
+// Types
+interface SettingsContextType {
+  settings: MerchantSettings;
+  isLoaded: boolean;
+  updateSettings: (changes: Partial<MerchantSettings>) => Promise<boolean>;
+}
+
+// Create context
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+// Provider component
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const [settings, setSettings] = useState<MerchantSettings>(DEFAULT_MERCHANT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load saved settings on app start
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const stored = await getMerchantSettings();
+    if (stored) {
+      setSettings({ ...DEFAULT_MERCHANT_SETTINGS, ...stored });
+    }
+    setIsLoaded(true);
+  };
+
+  const updateSettings = async (changes: Partial<MerchantSettings>): Promise<boolean> => {
+    const next = { ...settings, ...changes };
+    try {
+      await storeMerchantSettings(next);
+      setSettings(next);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const value: SettingsContextType = {
+    settings,
+    isLoaded,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+// Hook to use settings context
+export const useSettings = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+export default SettingsContext;
@@ -1,3 +1,5 @@
 // Custom Hooks
 export { useColorScheme } from './useColorScheme';
 export { useThemeColor } from './useThemeColor';
+export { usePaymentStatus } from './usePaymentStatus';
+export { useFaceAutoCapture } from './useFaceAutoCapture';
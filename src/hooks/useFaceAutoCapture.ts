@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { AUTO_CAPTURE_CONFIG } from '@/constants/vision';
+import { FaceDetector, PreviewFrame } from '@/services/vision/faceDetector';
+import { FacePlacement, getCenteredSquare, getFaceCenter, getFacePlacement } from '@/utils/faceFraming';
+
+interface FaceAutoCaptureState {
+  placement: FacePlacement | null; // Null until the first frame has been analyzed
+  isSteady: boolean; // The face is centered and still; the shutter fires after STEADY_DURATION
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Track the face in preview frames and call `onCapture` once it has stayed centered and still.
+ * Stops analyzing while `enabled` is false, e.g. while a capture is already in progress.
+ */
+export function useFaceAutoCapture(
+  enabled: boolean,
+  captureFrame: () => Promise<PreviewFrame | null>,
+  detector: FaceDetector,
+  onCapture: () => void
+): FaceAutoCaptureState {
+  const [placement, setPlacement] = useState<FacePlacement | null>(null);
+  const [isSteady, setIsSteady] = useState(false);
+  // Latest callbacks without restarting the loop on every render
+  const callbacksRef = useRef({ captureFrame, onCapture });
+  callbacksRef.current = { captureFrame, onCapture };
+
+  useEffect(() => {
+    setPlacement(null);
+    setIsSteady(false);
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const track = async () => {
+      let steadySince: number | null = null;
+      let lastCenter: { x: number; y: number } | null = null;
+
+      while (!cancelled) {
+        try {
+          const frame = await callbacksRef.current.captureFrame();
+          if (cancelled) return;
+
+          if (frame) {
+            const faces = (await detector.detect(frame.uri)).map(face => face.bounds);
+            if (cancelled) return;
+
+            const current = getFacePlacement(faces, frame.width, frame.height);
+            const center = current === 'centered'
+              ? getFaceCenter(faces[0], getCenteredSquare(frame.width, frame.height))
+              : null;
+            const isStill = !!center && !!lastCenter &&
+              Math.hypot(center.x - lastCenter.x, center.y - lastCenter.y) <= AUTO_CAPTURE_CONFIG.MAX_MOVEMENT;
+
+            steadySince = isStill ? steadySince ?? Date.now() : null;
+            lastCenter = center;
+            setPlacement(current);
+            setIsSteady(steadySince !== null);
+
+            if (steadySince !== null && Date.now() - steadySince >= AUTO_CAPTURE_CONFIG.STEADY_DURATION) {
+              callbacksRef.current.onCapture();
+              return;
+            }
+          }
+        } catch {
+          // Camera not ready yet or a frame failed to analyze, try the next one
+        }
+
+        await wait(AUTO_CAPTURE_CONFIG.FRAME_INTERVAL);
+      }
+    };
+
+    track();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, detector]);
+
+  return { placement, isSteady };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import {
+  PaymentRequestUpdate,
+  PaymentStatusSnapshot,
+  PaymentStatusTransport,
+  subscribeToPaymentStatus,
+} from '@/services/payments/paymentStatusService';
+
+interface PaymentStatusState {
+  request: PaymentRequestUpdate | null;
+  status: PaymentRequestUpdate['status'] | null;
+  transport: PaymentStatusTransport | null;
+}
+
+/**
+ * Live status of a single payment request.
+ * Pass a null id or `enabled = false` to stop listening.
+ */
+export function usePaymentStatus(requestId: string | null, enabled: boolean = true): PaymentStatusState {
+  const [snapshot, setSnapshot] = useState<PaymentStatusSnapshot | null>(null);
+
+  useEffect(() => {
+    setSnapshot(null);
+    if (!requestId || !enabled) return;
+
+    return subscribeToPaymentStatus(requestId, setSnapshot);
+  }, [requestId, enabled]);
+
+  return {
+    request: snapshot?.request ?? null,
+    status: snapshot?.request.status ?? null,
+    transport: snapshot?.transport ?? null,
+  };
+}
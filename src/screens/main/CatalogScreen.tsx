@@ -0,0 +1,376 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useStyledAlert } from '@/components/ui/StyledAlert';
+import FilterModal from '@/components/ui/FilterModal';
+import { useAuth } from '@/context/AuthContext';
+import { formatAmountInput, formatMoney, parseAmountInput } from '@/utils/money';
+import {
+  Product,
+  deleteProduct,
+  getProducts,
+  groupProductsByCategory,
+  saveProduct,
+} from '@/services/catalog/catalogService';
+
+interface ProductForm {
+  name: string;
+  price: string;
+  sku: string;
+  category: string;
+}
+
+const EMPTY_FORM: ProductForm = { name: '', price: '', sku: '', category: '' };
+
+export default function CatalogScreen() {
+  const insets = useSafeAreaInsets();
+  const { currency } = useAuth();
+  const { showAlert, AlertComponent } = useStyledAlert();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+
+  const loadProducts = async () => {
+    setProducts(await getProducts());
+  };
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const openForm = (product?: Product) => {
+    setEditingId(product?.id || null);
+    setForm(product
+      ? {
+          name: product.name,
+          price: formatAmountInput(product.price, currency),
+          sku: product.sku || '',
+          category: product.category || '',
+        }
+      : EMPTY_FORM);
+    setIsFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setIsFormVisible(false);
+    setEditingId(null);
+  };
+
+  const parsedPrice = parseAmountInput(form.price, currency);
+  const isFormValid = form.name.trim().length > 0 && parsedPrice !== null && parsedPrice > 0;
+
+  const handleSave = async () => {
+    if (!isFormValid || parsedPrice === null) return;
+
+    try {
+      await saveProduct(
+        {
+          name: form.name.trim(),
+          price: parsedPrice,
+          sku: form.sku.trim() || undefined,
+          category: form.category.trim() || undefined,
+        },
+        editingId || undefined
+      );
+      closeForm();
+      await loadProducts();
+    } catch {
+      showAlert('Error', 'Failed to save product', [{ text: 'OK' }], 'error');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingId) return;
+
+    showAlert(
+      'Delete Product',
+      `Remove ${form.name || 'this product'} from your catalog?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProduct(editingId);
+              closeForm();
+              await loadProducts();
+            } catch {
+              showAlert('Error', 'Failed to delete product', [{ text: 'OK' }], 'error');
+            }
+          },
+        },
+      ],
+      'warning'
+    );
+  };
+
+  const renderInput = (label: string, key: keyof ProductForm, placeholder: string, numeric = false) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={form[key]}
+        onChangeText={(value) => setForm(current => ({ ...current, [key]: value }))}
+        placeholder={placeholder}
+        placeholderTextColor={Colors.text.muted}
+        keyboardType={numeric ? 'numeric' : 'default'}
+        autoCapitalize={key === 'sku' ? 'characters' : 'words'}
+      />
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Gradient Header */}
+      <LinearGradient
+        colors={Colors.gradients.header}
+        style={styles.gradientHeader}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Catalog</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={() => openForm()}>
+          <Ionicons name="add" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+        showsVerticalScrollIndicator={false}
+      >
+        {products.length > 0 ? (
+          groupProductsByCategory(products).map(group => (
+            <View key={group.category} style={styles.section}>
+              <Text style={styles.sectionTitle}>{group.category}</Text>
+              <View style={styles.sectionCard}>
+                {group.products.map((product, index) => (
+                  <TouchableOpacity
+                    key={product.id}
+                    style={[styles.productRow, index === group.products.length - 1 && styles.productRowLast]}
+                    onPress={() => openForm(product)}
+                  >
+                    <View style={styles.productInfo}>
+                      <Text style={styles.productName}>{product.name}</Text>
+                      {product.sku && <Text style={styles.productSku}>SKU {product.sku}</Text>}
+                    </View>
+                    <Text style={styles.productPrice}>{formatMoney(product.price, currency)}</Text>
+                    <Ionicons name="chevron-forward" size={16} color={Colors.text.muted} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))
+        ) : (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={64} color={Colors.text.muted} />
+            <Text style={styles.emptyStateTitle}>No Products Yet</Text>
+            <Text style={styles.emptyStateText}>
+              Add the products you sell to build itemized sales from the Scan tab
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => openForm()}>
+              <Text style={styles.primaryButtonText}>Add Product</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Product Form */}
+      <FilterModal
+        visible={isFormVisible}
+        onClose={closeForm}
+        title={editingId ? 'Edit Product' : 'New Product'}
+      >
+        {renderInput('Name', 'name', 'e.g. Cappuccino')}
+        {renderInput('Price', 'price', formatAmountInput(0, currency), true)}
+        {renderInput('SKU', 'sku', 'Optional')}
+        {renderInput('Category', 'category', 'Optional, e.g. Drinks')}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, !isFormValid && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!isFormValid}
+        >
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </TouchableOpacity>
+
+        {editingId && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>Delete Product</Text>
+          </TouchableOpacity>
+        )}
+      </FilterModal>
+
+      {/* Styled Alert Component */}
+      <AlertComponent />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F7FF',
+  },
+  gradientHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    paddingBottom: 16,
+    minHeight: 80,
+    borderBottomLeftRadius: 4,
+    borderBottomRightRadius: 4,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text.primary,
+    marginBottom: 12,
+  },
+  sectionCard: {
+    backgroundColor: Colors.background.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+    gap: 12,
+  },
+  productRowLast: {
+    borderBottomWidth: 0,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: Colors.text.primary,
+  },
+  productSku: {
+    fontSize: 12,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  productPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: Colors.background.input,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: '#6B46C1',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  deleteButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  deleteButtonText: {
+    color: Colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -12,25 +12,36 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/context/AuthContext';
 import apiService from '@/services/api/apiService';
+import type { LineItem } from '@/types';
 import Colors from '@/constants/colors';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import { sharedHeaderStyles } from '@/constants/layout';
+import { formatMajorAmount } from '@/utils/money';
 import FilterModal from '@/components/ui/FilterModal';
+import { describeLineItems } from '@/utils/cart';
+import { formatStatusLabel, isPaidStatus, isRefundStatus } from '@/utils/refunds';
+import { Receipt, buildTransactionReceipt } from '@/utils/receipt';
+import TransactionDetailModal from '@/components/modals/TransactionDetailModal';
+import ReceiptModal from '@/components/modals/ReceiptModal';
 
 interface Transaction {
   id: string;
   amount: number;
+  currency?: string;
   status: string;
   customer_name?: string;
   created_at: string;
   description?: string;
+  line_items?: LineItem[];
+  refunded_amount?: number;
+  staff_name?: string;
 }
 
-type FilterType = 'all' | 'completed' | 'pending' | 'failed' | 'expired';
+type FilterType = 'all' | 'completed' | 'pending' | 'failed' | 'expired' | 'refunded';
 type TimeFilter = 'all' | 'daily' | 'weekly' | 'monthly';
 
 export default function HistoryScreen() {
-  const { user } = useAuth();
+  const { user, currency, can } = useAuth();
   const { showAlert, AlertComponent } = useStyledAlert();
   const insets = useSafeAreaInsets();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -40,6 +51,8 @@ export default function HistoryScreen() {
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
   const [activeTimeFilter, setActiveTimeFilter] = useState<TimeFilter>('all');
   const [isFilterModalVisible, setIsFilterModalVisible] = useState(false);
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
 
   const fetchTransactions = async (statusFilter?: string, targetFilter?: FilterType) => {
     try {
@@ -111,7 +124,9 @@ export default function HistoryScreen() {
     let filtered = transactionList;
     if (filter !== 'all') {
       filtered = filtered.filter(t => 
-        t.status.toLowerCase() === filter.toLowerCase()
+        filter === 'refunded'
+          ? isRefundStatus(t.status)
+          : t.status.toLowerCase() === filter.toLowerCase()
       );
     }
     
@@ -137,11 +152,11 @@ export default function HistoryScreen() {
     fetchTransactions(); // Fetch all transactions initially
   }, []);
 
-  const formatCurrency = (amount: number) => {
-    return `$${amount.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    })}`;
+  const handleRefunded = (updated: Transaction) => {
+    const updatedList = transactions.map(t => (t.id === updated.id ? updated : t));
+    setTransactions(updatedList);
+    filterTransactions(updatedList, activeFilter, activeTimeFilter);
+    setSelectedTransaction(updated);
   };
 
   const formatDate = (dateString: string) => {
@@ -171,6 +186,9 @@ export default function HistoryScreen() {
         return Colors.error;
       case 'expired':
         return '#9CA3AF';
+      case 'refunded':
+      case 'partially_refunded':
+        return Colors.info;
       default:
         return Colors.text.secondary;
     }
@@ -186,6 +204,9 @@ export default function HistoryScreen() {
         return Colors.status.failed;
       case 'expired':
         return '#F3F4F6';
+      case 'refunded':
+      case 'partially_refunded':
+        return Colors.status.processing;
       default:
         return Colors.background.overlay;
     }
@@ -201,6 +222,9 @@ export default function HistoryScreen() {
         return 'close-circle';
       case 'expired':
         return 'time-outline';
+      case 'refunded':
+      case 'partially_refunded':
+        return 'return-down-back';
       default:
         return 'help-circle';
     }
@@ -212,6 +236,7 @@ export default function HistoryScreen() {
     { key: 'pending', label: 'Pending' },
     { key: 'failed', label: 'Failed' },
     { key: 'expired', label: 'Expired' },
+    { key: 'refunded', label: 'Refunded' },
   ];
 
   const timeFilters: { key: TimeFilter; label: string; icon: string }[] = [
@@ -277,7 +302,11 @@ export default function HistoryScreen() {
         {filteredTransactions.length > 0 ? (
           <View style={styles.transactionsList}>
             {filteredTransactions.map((transaction) => (
-              <View key={transaction.id} style={styles.transactionItem}>
+              <TouchableOpacity
+                key={transaction.id}
+                style={styles.transactionItem}
+                onPress={() => setSelectedTransaction(transaction)}
+              >
                 <View style={styles.transactionLeft}>
                   <View style={[
                     styles.transactionIcon,
@@ -293,19 +322,27 @@ export default function HistoryScreen() {
                     <Text style={styles.transactionCustomer}>
                       {transaction.customer_name || 'Customer'}
                     </Text>
-                    <Text style={styles.transactionDescription}>
-                      {transaction.description || 'Payment transaction'}
+                    <Text style={styles.transactionDescription} numberOfLines={2}>
+                      {transaction.line_items?.length
+                        ? describeLineItems(transaction.line_items)
+                        : transaction.description || 'Payment transaction'}
                     </Text>
                     <Text style={styles.transactionDate}>
                       {formatDate(transaction.created_at)} • {formatTime(transaction.created_at)}
+                      {transaction.staff_name ? ` • ${transaction.staff_name}` : ''}
                     </Text>
                   </View>
                 </View>
                 
                 <View style={styles.transactionRight}>
                   <Text style={styles.transactionAmount}>
-                    {formatCurrency(transaction.amount)}
+                    {formatMajorAmount(transaction.amount, transaction.currency || currency)}
                   </Text>
+                  {!!transaction.refunded_amount && (
+                    <Text style={styles.transactionRefunded}>
+                      −{formatMajorAmount(transaction.refunded_amount, transaction.currency || currency)}
+                    </Text>
+                  )}
                   <View style={[
                     styles.statusBadge,
                     { backgroundColor: getStatusBg(transaction.status) }
@@ -314,11 +351,22 @@ export default function HistoryScreen() {
                       styles.statusText,
                       { color: getStatusColor(transaction.status) }
                     ]}>
-                      {transaction.status}
+                      {formatStatusLabel(transaction.status)}
                     </Text>
                   </View>
+                  {isPaidStatus(transaction.status) && (
+                    <TouchableOpacity
+                      style={styles.receiptButton}
+                      onPress={() => setReceipt(buildTransactionReceipt(transaction, user?.business_name || 'Merchant', currency))}
+                      hitSlop={8}
+                      accessibilityLabel="Share receipt"
+                    >
+                      <Ionicons name="receipt-outline" size={16} color={Colors.primary} />
+                      <Text style={styles.receiptButtonText}>Receipt</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
-              </View>
+              </TouchableOpacity>
             ))}
           </View>
         ) : (
@@ -338,6 +386,18 @@ export default function HistoryScreen() {
       {/* Styled Alert Component */}
       <AlertComponent />
 
+      {/* Transaction Details */}
+      <TransactionDetailModal
+        transaction={selectedTransaction}
+        currency={currency}
+        canIssueRefunds={can('refunds')}
+        onClose={() => setSelectedTransaction(null)}
+        onRefunded={handleRefunded}
+      />
+
+      {/* Receipt Sharing */}
+      <ReceiptModal receipt={receipt} onClose={() => setReceipt(null)} />
+
       {/* Filter Modal */}
       <FilterModal 
         visible={isFilterModalVisible} 
@@ -568,6 +628,13 @@ const styles = StyleSheet.create({
     color: Colors.text.primary,
     marginBottom: 6,
   },
+  transactionRefunded: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.info,
+    marginTop: -4,
+    marginBottom: 6,
+  },
   statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -578,6 +645,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textTransform: 'uppercase',
   },
+  receiptButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  receiptButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 80,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,13 +10,15 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
 import apiService from '@/services/api/apiService';
 import Colors from '@/constants/colors';
 import { Linking } from 'react-native';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import { sharedHeaderStyles } from '@/constants/layout';
+import { formatMajorAmount } from '@/utils/money';
+import { getNetAmount, isPaidStatus, isRefundStatus } from '@/utils/refunds';
 
 interface DashboardData {
   todayEarnings: number;
@@ -25,6 +27,7 @@ interface DashboardData {
   recentTransactions: Array<{
     id: string;
     amount: number;
+    currency?: string;
     status: string;
     customer_name?: string;
     created_at: string;
@@ -32,7 +35,7 @@ interface DashboardData {
 }
 
 export default function HomeScreen() {
-  const { user, logout, startMerchantOnboarding, refreshUserProfile, refreshStripeOnboarding } = useAuth();
+  const { user, currency, logout, startMerchantOnboarding, refreshUserProfile, refreshStripeOnboarding, can } = useAuth();
   const { showAlert, AlertComponent } = useStyledAlert();
   const insets = useSafeAreaInsets();
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
@@ -56,25 +59,17 @@ export default function HomeScreen() {
       const todayTransactions = transactions.filter((t: any) => {
         const tDateObj = new Date(t.created_at);
         const isToday = isSameDay(tDateObj, now);
-        const statusStr = (t?.status || '').toString().toLowerCase();
-        const isSucceeded = statusStr === 'succeeded' || statusStr === 'completed';
-        return isToday && isSucceeded;
+        return isToday && isPaidStatus(t?.status);
       });
       
+      // Earnings are net of refunds
       const todayEarnings = todayTransactions.reduce((sum: number, t: any) => {
-        const amount = t.amount || 0;
-        return sum + amount;
+        return sum + getNetAmount(t);
       }, 0);
 
       // Calculate all-time earnings as fallback
       const allTimeEarnings = transactions.reduce((sum: number, t: any) => {
-        const statusStr = (t?.status || '').toString().toLowerCase();
-        const isSucceeded = statusStr === 'succeeded' || statusStr === 'completed';
-        if (isSucceeded) {
-          const amount = t.amount || 0;
-          return sum + amount;
-        }
-        return sum;
+        return sum + getNetAmount(t);
       }, 0);
 
       setDashboardData({
@@ -84,6 +79,7 @@ export default function HomeScreen() {
         recentTransactions: transactions.slice(0, 5).map((t: any) => ({
           id: t.id,
           amount: t.amount || 0,
+          currency: t.currency,
           status: t.status || 'pending',
           customer_name: t.customer_name || 'Customer',
           created_at: t.created_at || new Date().toISOString(),
@@ -156,9 +152,12 @@ export default function HomeScreen() {
     }
   };
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
+  // Refetch whenever the tab is shown so refunds issued from history show up in the totals
+  useFocusEffect(
+    useCallback(() => {
+      fetchDashboardData();
+    }, [])
+  );
 
   // Auto-refresh when Stripe status is pending verification
   useEffect(() => {
@@ -178,13 +177,6 @@ export default function HomeScreen() {
     };
   }, [user?.stripe_account_status]);
 
-  const formatCurrency = (amount: number) => {
-    return `$${amount.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    })}`;
-  };
-
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'completed':
@@ -193,6 +185,9 @@ export default function HomeScreen() {
         return Colors.warning;
       case 'failed':
         return Colors.error;
+      case 'refunded':
+      case 'partially_refunded':
+        return Colors.info;
       default:
         return Colors.text.secondary;
     }
@@ -260,7 +255,7 @@ export default function HomeScreen() {
         showsVerticalScrollIndicator={false}
       >
         {/* Stripe Onboarding Banner */}
-        {user && user.stripe_account_status !== 'COMPLETE' && (
+        {user && can('payouts') && user.stripe_account_status !== 'COMPLETE' && (
           <View style={styles.onboardingBanner}>
             <LinearGradient
               colors={[Colors.warning, '#F59E0B']}
@@ -347,7 +342,7 @@ export default function HomeScreen() {
               >
                 <Ionicons name="trending-up" size={24} color={Colors.text.white} />
                 <Text style={styles.summaryAmount}>
-                  {formatCurrency(dashboardData?.todayEarnings || 0)}
+                  {formatMajorAmount(dashboardData?.todayEarnings || 0, currency)}
                 </Text>
                 <Text style={styles.summaryLabel}>Earnings</Text>
               </LinearGradient>
@@ -371,7 +366,7 @@ export default function HomeScreen() {
           </View>
 
           {/* Payout Status Card */}
-          {user && (
+          {user && can('payouts') && (
             <View style={styles.payoutCard}>
               <LinearGradient
                 colors={user.payout_enabled ? [Colors.success, '#059669'] : [Colors.warning, '#F59E0B']}
@@ -447,6 +442,7 @@ export default function HomeScreen() {
                       <Ionicons 
                         name={transaction.status.toLowerCase() === 'completed' ? 'checkmark-circle' : 
                               transaction.status.toLowerCase() === 'pending' ? 'time-outline' : 
+                              isRefundStatus(transaction.status) ? 'return-down-back' :
                               'close-circle'} 
                         size={40} 
                         color={getStatusColor(transaction.status)} 
@@ -470,7 +466,7 @@ export default function HomeScreen() {
                   
                   <View style={styles.transactionRight}>
                     <Text style={styles.transactionAmount}>
-                      {formatCurrency(transaction.amount)}
+                      {formatMajorAmount(transaction.amount, transaction.currency || currency)}
                     </Text>
                   </View>
                 </View>
@@ -13,10 +13,18 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
+import { useSettings } from '@/context/SettingsContext';
+import TipSettingsModal from '@/components/modals/TipSettingsModal';
+import MerchantPinModal from '@/components/modals/MerchantPinModal';
+import PrinterSettingsModal from '@/components/modals/PrinterSettingsModal';
+import PosIntegrationsModal from '@/components/modals/PosIntegrationsModal';
+import StaffSwitchModal from '@/components/modals/StaffSwitchModal';
+import StaffManagementModal from '@/components/modals/StaffManagementModal';
 import apiService from '@/services/api/apiService';
 import Colors from '@/constants/colors';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import { sharedHeaderStyles } from '@/constants/layout';
+import { getRoleLabel } from '@/utils/permissions';
 
 interface MerchantProfile {
   id: string;
@@ -30,12 +38,19 @@ interface MerchantProfile {
 }
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuth();
+  const { user, logout, activeStaff, role, can } = useAuth();
+  const { settings, updateSettings } = useSettings();
   const { showAlert, AlertComponent } = useStyledAlert();
   const insets = useSafeAreaInsets();
   const [profile, setProfile] = useState<MerchantProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [isTipSettingsVisible, setIsTipSettingsVisible] = useState(false);
+  const [isPrinterSettingsVisible, setIsPrinterSettingsVisible] = useState(false);
+  const [isPosIntegrationsVisible, setIsPosIntegrationsVisible] = useState(false);
+  const [isMerchantPinVisible, setIsMerchantPinVisible] = useState(false);
+  const [isStaffSwitchVisible, setIsStaffSwitchVisible] = useState(false);
+  const [isStaffManagementVisible, setIsStaffManagementVisible] = useState(false);
 
   const fetchProfile = async () => {
     try {
@@ -58,6 +73,51 @@ export default function ProfileScreen() {
     fetchProfile();
   }, []);
 
+  const handleTogglePinPadShuffle = async () => {
+    const shufflePinPad = !settings.shufflePinPad;
+    const saved = await updateSettings({ shufflePinPad });
+    if (!saved) {
+      showAlert('Error', 'Failed to save PIN pad settings', [{ text: 'OK' }], 'error');
+      return;
+    }
+    showAlert(
+      'Customer PIN Pad',
+      shufflePinPad
+        ? 'Keys will appear in a new random order for every PIN attempt.'
+        : 'Keys will use the standard phone layout.',
+      [{ text: 'OK' }],
+      'success'
+    );
+  };
+
+  const handleToggleMatchHints = async () => {
+    const matchHintsEnabled = !settings.matchHintsEnabled;
+    const saved = await updateSettings({ matchHintsEnabled });
+    if (!saved) {
+      showAlert('Error', 'Failed to save match settings', [{ text: 'OK' }], 'error');
+      return;
+    }
+    showAlert(
+      'Look-alike Matches',
+      matchHintsEnabled
+        ? 'When several customers match, they will see initials and the last two phone digits and tap their own before entering a PIN.'
+        : 'When several customers match, they will go straight to PIN entry.',
+      [{ text: 'OK' }],
+      'success'
+    );
+  };
+
+  // A fresh merchant PIN is set every time, so whoever sets up the counter device knows it
+  const handleEnterCustomerDisplay = async () => {
+    setIsMerchantPinVisible(false);
+    const saved = await updateSettings({ customerDisplay: true });
+    if (!saved) {
+      showAlert('Error', 'Failed to turn on the customer display', [{ text: 'OK' }], 'error');
+      return;
+    }
+    router.replace('/(tabs)/scan');
+  };
+
   const handleLogout = () => {
     showAlert(
       'Logout',
@@ -141,20 +201,75 @@ export default function ProfileScreen() {
         },
       ],
     },
+    {
+      title: 'Staff',
+      items: [
+        {
+          icon: 'person-circle' as const,
+          label: 'Signed In As',
+          value: activeStaff ? `${activeStaff.name}, ${getRoleLabel(role)}` : role === 'owner' ? 'Account owner' : 'No staff signed in',
+          action: 'switch-staff' as const,
+          status: undefined,
+        },
+        ...(can('staff') ? [
+          {
+            icon: 'people-circle' as const,
+            label: 'Staff Accounts',
+            value: 'Add or remove staff',
+            action: 'manage-staff' as const,
+            status: undefined,
+          },
+        ] : []),
+      ],
+    },
     {
       title: 'Payment Settings',
+      restricted: true,
       items: [
+        ...(can('payouts') ? [
+          {
+            icon: 'card' as const,
+            label: 'Stripe Account',
+            value: profile?.stripe_account_id ? 'Connected' : 'Not connected',
+            action: profile?.stripe_onboarding_complete ? null : 'setup',
+            status: profile?.stripe_onboarding_complete ? 'verified' : 'pending',
+          },
+        ] : []),
+        {
+          icon: 'cash' as const,
+          label: 'Tips',
+          value: settings.tipsEnabled ? settings.tipPresets.map(percent => `${percent}%`).join(', ') : 'Off',
+          action: 'tips' as const,
+          status: undefined,
+        },
+        {
+          icon: 'keypad' as const,
+          label: 'Customer PIN Pad',
+          value: settings.shufflePinPad ? 'Shuffled keys' : 'Standard layout',
+          action: 'pin-pad' as const,
+          status: undefined,
+        },
         {
-          icon: 'card' as const,
-          label: 'Stripe Account',
-          value: profile?.stripe_account_id ? 'Connected' : 'Not connected',
-          action: profile?.stripe_onboarding_complete ? null : 'setup',
-          status: profile?.stripe_onboarding_complete ? 'verified' : 'pending',
+          icon: 'people' as const,
+          label: 'Look-alike Matches',
+          value: settings.matchHintsEnabled ? 'Customer picks a masked hint' : 'PIN only',
+          action: 'match-hints' as const,
+          status: undefined,
+        },
+        {
+          icon: 'link' as const,
+          label: 'POS Integrations',
+          value: settings.chargeCallbackOrigins.length
+            ? `${settings.chargeCallbackOrigins.length} allowed callback${settings.chargeCallbackOrigins.length === 1 ? '' : 's'}`
+            : 'No callbacks allowed',
+          action: 'pos-integrations' as const,
+          status: undefined,
         },
       ],
     },
     {
       title: 'App Settings',
+      restricted: true,
       items: [
         {
           icon: 'notifications' as const,
@@ -163,6 +278,22 @@ export default function ProfileScreen() {
           action: 'toggle' as const,
           status: undefined,
         },
+        {
+          icon: 'tablet-landscape' as const,
+          label: 'Customer Display',
+          value: 'Turn the device toward shoppers',
+          action: 'customer-display' as const,
+          status: undefined,
+        },
+        {
+          icon: 'print' as const,
+          label: 'Receipt Printer',
+          value: settings.printer
+            ? `${settings.printer.host}:${settings.printer.port}${settings.autoPrintReceipts ? ', prints automatically' : ''}`
+            : 'Not set up',
+          action: 'printer' as const,
+          status: undefined,
+        },
         {
           icon: 'download' as const,
           label: 'Check for Updates',
@@ -186,7 +317,7 @@ export default function ProfileScreen() {
         },
       ],
     },
-  ];
+  ].filter(section => !section.restricted || can('settings'));
 
   if (loading) {
     return (
@@ -289,6 +420,22 @@ export default function ProfileScreen() {
                       showAlert('Coming Soon', 'This feature will be available soon', [{ text: 'OK' }], 'info');
                     } else if (item.action === 'toggle') {
                       showAlert('Settings', 'Notification settings will be available soon', [{ text: 'OK' }], 'info');
+                    } else if (item.action === 'tips') {
+                      setIsTipSettingsVisible(true);
+                    } else if (item.action === 'pin-pad') {
+                      handleTogglePinPadShuffle();
+                    } else if (item.action === 'match-hints') {
+                      handleToggleMatchHints();
+                    } else if (item.action === 'customer-display') {
+                      setIsMerchantPinVisible(true);
+                    } else if (item.action === 'printer') {
+                      setIsPrinterSettingsVisible(true);
+                    } else if (item.action === 'pos-integrations') {
+                      setIsPosIntegrationsVisible(true);
+                    } else if (item.action === 'switch-staff') {
+                      setIsStaffSwitchVisible(true);
+                    } else if (item.action === 'manage-staff') {
+                      setIsStaffManagementVisible(true);
                     } else if (item.action === 'check-updates') {
                       showAlert('Development Mode', 'Updates are only available in production builds.', [{ text: 'OK' }], 'info');
                     }
@@ -338,6 +485,60 @@ export default function ProfileScreen() {
         </View>
       </ScrollView>
 
+      {/* Tip Settings */}
+      <TipSettingsModal
+        visible={isTipSettingsVisible}
+        onClose={() => setIsTipSettingsVisible(false)}
+        onSaved={(saved) => {
+          if (!saved) {
+            showAlert('Error', 'Failed to save tip settings', [{ text: 'OK' }], 'error');
+          }
+        }}
+      />
+
+      {/* Receipt Printer */}
+      <PrinterSettingsModal
+        visible={isPrinterSettingsVisible}
+        onClose={() => setIsPrinterSettingsVisible(false)}
+        onSaved={(saved) => {
+          if (!saved) {
+            showAlert('Error', 'Failed to save printer settings', [{ text: 'OK' }], 'error');
+          }
+        }}
+      />
+
+      {/* POS Integrations */}
+      <PosIntegrationsModal
+        visible={isPosIntegrationsVisible}
+        onClose={() => setIsPosIntegrationsVisible(false)}
+        onSaved={(saved) => {
+          if (!saved) {
+            showAlert('Error', 'Failed to save POS integration settings', [{ text: 'OK' }], 'error');
+          }
+        }}
+      />
+
+      {/* Staff */}
+      <StaffSwitchModal
+        visible={isStaffSwitchVisible}
+        onClose={() => setIsStaffSwitchVisible(false)}
+        onSwitched={(staff) => {
+          showAlert('Staff Switched', `Sales are now recorded under ${staff.name}.`, [{ text: 'OK' }], 'success');
+        }}
+      />
+      <StaffManagementModal
+        visible={isStaffManagementVisible}
+        onClose={() => setIsStaffManagementVisible(false)}
+      />
+
+      {/* Merchant PIN for the customer display */}
+      <MerchantPinModal
+        visible={isMerchantPinVisible}
+        mode="create"
+        onClose={() => setIsMerchantPinVisible(false)}
+        onSuccess={handleEnterCustomerDisplay}
+      />
+
       {/* Styled Alert Component */}
       <AlertComponent />
     </View>
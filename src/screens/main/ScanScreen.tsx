@@ -1,11 +1,17 @@
-import FaceVerificationComponent from '@/components/screens/FaceVerificationComponent';
+import FaceVerificationComponent, { FaceVerificationHandle } from '@/components/screens/FaceVerificationComponent';
 import PaymentWaitingScreen from '@/components/modals/PaymentWaitingScreen';
+import MerchantPinModal from '@/components/modals/MerchantPinModal';
+import ReceiptModal from '@/components/modals/ReceiptModal';
 import { useStyledAlert } from '@/components/ui/StyledAlert';
 import Colors from '@/constants/colors';
 import { useAuth } from '@/context/AuthContext';
+import { useSettings } from '@/context/SettingsContext';
+import TipSelector from '@/components/ui/TipSelector';
+import CartBuilder from '@/components/ui/CartBuilder';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useState } from 'react';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   ScrollView,
@@ -17,7 +23,23 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { sharedHeaderStyles } from '@/constants/layout';
+import { ERROR_MESSAGES } from '@/constants/api';
 import apiService from '@/services/api/apiService';
+import { VerificationSuccess } from '@/utils/faceVerificationMachine';
+import { usePaymentStatus } from '@/hooks/usePaymentStatus';
+import { PaymentRequestUpdate } from '@/services/payments/paymentStatusService';
+import { ResolvedPendingPayment, reconcilePendingPayments } from '@/services/payments/pendingPaymentsService';
+import { removePendingPayment, storePendingPayment } from '@/services/storage/storageService';
+import { createIdempotencyKey } from '@/utils/idempotency';
+import { NO_TIP, TipSelection, getTipAmount } from '@/utils/tips';
+import { formatAmountInput, formatMajorAmount, formatMoney, fromMinorUnits, getCurrencySymbol, parseAmountInput, toMinorUnits } from '@/utils/money';
+import { CartLine, describeLineItems, getCartTotal, toLineItems } from '@/utils/cart';
+import { Product, getProducts } from '@/services/catalog/catalogService';
+import { Receipt, buildSaleReceipt } from '@/utils/receipt';
+import { getReceiptUrl } from '@/services/receipts/receiptService';
+import { printReceipt } from '@/services/printing/printerService';
+import { returnToCaller, takePendingCharge } from '@/services/payments/chargeIntentService';
+import { ChargeIntent, ChargeResult } from '@/utils/chargeIntent';
 
 // Loading states enum for better state management
 enum LoadingState {
@@ -29,55 +51,197 @@ enum LoadingState {
   PAYMENT_WAITING = 'payment_waiting',
 }
 
+// How long the customer display shows the thank-you screen before the next sale
+const THANK_YOU_DURATION = 5000;
+const PRINT_FAILED_NOTE = '\n\nThe receipt could not be printed. Tap Receipt to try again.';
+
 export default function ScanScreen() {
-  const { user } = useAuth();
+  const { user, currency } = useAuth();
+  const { settings, updateSettings } = useSettings();
   const insets = useSafeAreaInsets();
   const { showAlert, AlertComponent } = useStyledAlert();
   const [amount, setAmount] = useState('');
+  const [tipSelection, setTipSelection] = useState<TipSelection>(NO_TIP);
+  const [saleMode, setSaleMode] = useState<'amount' | 'items'>('amount');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
   const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [faceVerificationComplete, setFaceVerificationComplete] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [paymentRequestId, setPaymentRequestId] = useState<string | null>(null);
+  // Link shown as a QR code on the waiting screen when the customer pays by scanning
+  const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
+  // Sent with every verify submission of the current sale so retries cannot create a second request
+  const [saleKey, setSaleKey] = useState(createIdempotencyKey);
+  const faceVerificationRef = useRef<FaceVerificationHandle>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // Customer display: the screen faces the shopper until the merchant unlocks it with their PIN
+  const [isMerchantUnlocked, setIsMerchantUnlocked] = useState(false);
+  const [isMerchantPinVisible, setIsMerchantPinVisible] = useState(false);
+  const [thankYouAmount, setThankYouAmount] = useState<number | null>(null);
+  // The sale is only cleared once its receipt is closed
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  // Sale started by another app through fpmerchant://charge; its result is reported when the sale ends
+  const [chargeIntent, setChargeIntent] = useState<ChargeIntent | null>(null);
+  const chargeResultRef = useRef<ChargeResult | null>(null);
+  const isCustomerView = settings.customerDisplay && !isMerchantUnlocked;
+
+  const { request: trackedRequest } = usePaymentStatus(
+    paymentRequestId,
+    loadingState === LoadingState.PAYMENT_WAITING
+  );
 
   const isLoading = loadingState !== LoadingState.IDLE && loadingState !== LoadingState.PAYMENT_WAITING;
-  const parsedAmount = parseFloat(amount);
-  const isValidAmount = !isNaN(parsedAmount) && parsedAmount >= 1;
+  // All amounts below are in the currency's minor unit.
+  // The entered amount or cart total is the subtotal; the tip is reported to the backend separately
+  const subtotalAmount = saleMode === 'items'
+    ? getCartTotal(cart)
+    : parseAmountInput(amount, currency) ?? 0;
+  const isValidAmount = subtotalAmount >= toMinorUnits(1, currency);
+  const tipAmount = settings.tipsEnabled ? getTipAmount(tipSelection, subtotalAmount) : 0;
+  const totalAmount = subtotalAmount + tipAmount;
+
+  const lineItems = saleMode === 'items' && cart.length > 0 ? toLineItems(cart) : undefined;
+  const saleDescription = lineItems
+    ? describeLineItems(lineItems)
+    : chargeIntent?.description
+      || (chargeIntent?.reference ? `Order ${chargeIntent.reference}` : `Payment by ${user?.business_name || 'Merchant'}`);
+
+  // A changed amount, cart or tip is a different sale, so a retry after it must not reuse the old key
+  const saleContents = JSON.stringify([currency, subtotalAmount, tipAmount, lineItems ?? null, saleDescription]);
+  useEffect(() => {
+    setSaleKey(createIdempotencyKey());
+  }, [saleContents]);
+
+  // Reload the catalog whenever the tab is shown so edits made in the catalog screen appear
+  useFocusEffect(
+    useCallback(() => {
+      getProducts().then(setProducts);
+    }, [])
+  );
+
+  // Start a charge handed over by the charge route
+  useFocusEffect(
+    useCallback(() => {
+      const intent = takePendingCharge();
+      if (!intent) return;
+
+      if (chargeIntent || faceVerificationComplete || loadingState !== LoadingState.IDLE) {
+        returnToCaller(intent, { status: 'busy' });
+        showAlert(
+          'Sale in Progress',
+          'Finish the current sale before starting one from another app.',
+          [{ text: 'OK' }],
+          'warning'
+        );
+        return;
+      }
+
+      chargeResultRef.current = null;
+      setChargeIntent(intent);
+      setSaleMode('amount');
+      setCart([]);
+      setTipSelection(NO_TIP);
+      setAmount(formatAmountInput(fromMinorUnits(intent.amount, currency), currency));
+      setSaleKey(createIdempotencyKey());
+    }, [chargeIntent, faceVerificationComplete, loadingState, currency, showAlert])
+  );
+
+  // Pick up payment requests left open by a previous session
+  useEffect(() => {
+    const resumePendingPayments = async () => {
+      try {
+        const { active, resolved } = await reconcilePendingPayments();
+
+        if (active) {
+          setSaleMode('amount');
+          setAmount(active.amount.toString());
+          setPaymentRequestId(active.request_id);
+          setPaymentUrl(active.payment_url ?? null);
+          setFaceVerificationComplete(true);
+          setLoadingMessage('Payment request sent!');
+          setLoadingState(LoadingState.PAYMENT_WAITING);
+        }
 
-  const handleFaceVerificationSuccess = (userId: string, faceScanId: string, paymentAlreadyProcessed?: boolean, requestId?: string) => {
-    setSelectedUserId(userId);
+        if (resolved.length > 0) {
+          showAlert(
+            'Resolved While You Were Away',
+            resolved.map(formatResolvedPayment).join('\n'),
+            [{ text: 'OK' }],
+            'info'
+          );
+        }
+      } catch {
+      }
+    };
+
+    resumePendingPayments();
+  }, [showAlert]);
+
+  const handleFaceVerificationSuccess = (outcome: VerificationSuccess) => {
+    setSelectedUserId(outcome.userId || null);
     setFaceVerificationComplete(true);
-    setPaymentRequestId(requestId || null);
+    setPaymentRequestId(outcome.requestId || null);
+    setPaymentUrl(outcome.kind === 'RequestSent' ? outcome.paymentUrl ?? null : null);
+
+    if (outcome.kind === 'AutoPaid') {
+      chargeResultRef.current = { status: 'completed', requestId: outcome.requestId, amount: totalAmount };
 
-    if (paymentAlreadyProcessed) {
       // PIN verification already processed the payment
       setLoadingState(LoadingState.PAYMENT_SUCCESS);
       setLoadingMessage('Payment complete!');
 
+      // A duplicate was already printed when the sale first went through
+      const printJob = outcome.duplicate ? Promise.resolve(true) : autoPrintReceipt(outcome.requestId);
+
       // Show success alert after a brief delay
-      setTimeout(() => {
-        const amountValue = parseFloat(amount || '0');
+      setTimeout(async () => {
+        if (isCustomerView) {
+          showThankYou();
+          return;
+        }
+        const amountText = formatMoney(totalAmount, currency);
+        const printed = await printJob;
         showAlert(
           'Payment Complete',
-          `Payment of $${amountValue.toFixed(2)} has been processed successfully with PIN verification!`,
-          [{ text: 'OK', onPress: () => resetForm() }],
+          (outcome.duplicate
+            ? `Payment of ${amountText} was already processed for this sale. The customer was not charged again.`
+            : `Payment of ${amountText} has been processed successfully with PIN verification!`)
+            + (printed ? '' : PRINT_FAILED_NOTE),
+          getSuccessButtons(outcome.requestId),
           'success'
         );
       }, 1500);
     } else {
+      // Remember the request so it can be resumed if the app is closed while waiting
+      storePendingPayment({
+        request_id: outcome.requestId,
+        amount: fromMinorUnits(totalAmount, currency),
+        currency,
+        description: saleDescription,
+        expires_at: outcome.expiresAt ?? null,
+        created_at: new Date().toISOString(),
+        payment_url: outcome.paymentUrl,
+      }).catch(() => {});
+
       // Backend created payment request - show waiting screen
       setLoadingState(LoadingState.PAYMENT_WAITING);
-      setLoadingMessage('Payment request sent!');
+      setLoadingMessage(outcome.duplicate ? 'Resumed existing payment request' : 'Payment request sent!');
     }
   };
 
-  const handleFaceVerificationError = (error: string) => {
+  const handleFaceVerificationError = (error: string, retryable: boolean = false) => {
 
-    // If user cancelled, reset everything completely
-    if (error.includes('cancelled by user')) {
+    // If user cancelled or ran out of PIN attempts, reset everything completely
+    if (error.includes('cancelled by user') || error === ERROR_MESSAGES.PIN_ATTEMPTS_EXHAUSTED) {
       resetForm();
     } else {
       setLoadingState(LoadingState.IDLE);
+      // The backend gave a definitive answer, so the next scan is a new attempt
+      if (!retryable) {
+        setSaleKey(createIdempotencyKey());
+      }
     }
     // Error is already handled by the FaceVerificationComponent
   };
@@ -85,12 +249,22 @@ export default function ScanScreen() {
   // Removed processPayment: backend auto-creates payment requests in verify-face and verify-pin flows
 
   const resetForm = () => {
+    if (chargeIntent) {
+      returnToCaller(chargeIntent, chargeResultRef.current ?? { status: 'cancelled', requestId: paymentRequestId ?? undefined });
+      chargeResultRef.current = null;
+      setChargeIntent(null);
+    }
+
     setAmount('');
+    setCart([]);
+    setTipSelection(NO_TIP);
     setSelectedUserId(null);
     setFaceVerificationComplete(false);
     setLoadingState(LoadingState.IDLE);
     setLoadingMessage('');
     setPaymentRequestId(null);
+    setPaymentUrl(null);
+    setSaleKey(createIdempotencyKey());
   };
 
   const resetVerification = () => {
@@ -98,6 +272,7 @@ export default function ScanScreen() {
     setFaceVerificationComplete(false);
     setLoadingState(LoadingState.IDLE);
     setLoadingMessage('');
+    setSaleKey(createIdempotencyKey());
   };
 
   const handleCancelTransaction = async () => {
@@ -106,6 +281,11 @@ export default function ScanScreen() {
       return;
     }
 
+    // Stop tracking first so our own cancellation is not reported as a customer decline
+    setLoadingState(LoadingState.IDLE);
+    removePendingPayment(paymentRequestId);
+    chargeResultRef.current = { status: 'cancelled', requestId: paymentRequestId };
+
     try {
       // Call API to cancel the payment request on the backend
       await apiService.merchant.cancelPaymentRequest(paymentRequestId);
@@ -128,51 +308,241 @@ export default function ScanScreen() {
     }
   };
 
-  const handlePaymentSuccess = (payment: any) => {
+  const handlePaymentSuccess = (payment: PaymentRequestUpdate) => {
+    removePendingPayment(payment.request_id);
+    chargeResultRef.current = { status: 'completed', requestId: payment.request_id, amount: totalAmount };
+
     // Close the waiting screen first
     setLoadingState(LoadingState.PAYMENT_SUCCESS);
     setLoadingMessage('Payment completed!');
 
+    const printJob = autoPrintReceipt(payment.request_id);
+
     // Show success alert after a brief delay
-    setTimeout(() => {
+    setTimeout(async () => {
+      if (isCustomerView) {
+        showThankYou();
+        return;
+      }
       setLoadingState(LoadingState.IDLE); // Close success overlay
-      const amountValue = parseFloat(amount || '0');
+      const printed = await printJob;
       showAlert(
         'Payment Successful',
-        `Payment of $${amountValue.toFixed(2)} has been completed successfully!`,
-        [{ text: 'OK', onPress: () => resetForm() }],
+        `Payment of ${formatMoney(totalAmount, currency)} has been completed successfully!`
+          + (printed ? '' : PRINT_FAILED_NOTE),
+        getSuccessButtons(payment.request_id),
         'success'
       );
     }, 1000);
   };
 
-  const handlePaymentFailure = (payment: any) => {
+  // Receipts need the request ID, which an auto-paid sale does not always return
+  const getSuccessButtons = (requestId?: string) => [
+    ...(requestId ? [{ text: 'Receipt', onPress: () => openReceipt(requestId) }] : []),
+    { text: 'OK', onPress: () => resetForm() },
+  ];
+
+  const createReceipt = (requestId: string): Receipt =>
+    buildSaleReceipt({
+      reference: requestId,
+      amount: totalAmount,
+      tipAmount,
+      currency,
+      description: saleDescription,
+      lineItems,
+      status: 'completed',
+    }, user?.business_name || 'Merchant');
+
+  const openReceipt = (requestId: string) => {
+    setReceipt(createReceipt(requestId));
+  };
+
+  // Resolves false only when auto-print is on and the printer could not be reached
+  const autoPrintReceipt = async (requestId?: string): Promise<boolean> => {
+    const printer = settings.printer;
+    if (!settings.autoPrintReceipts || !printer || !requestId) return true;
+
+    try {
+      const receiptUrl = await getReceiptUrl(requestId);
+      await printReceipt(printer, createReceipt(requestId), receiptUrl);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleReceiptClose = () => {
+    setReceipt(null);
+    resetForm();
+  };
+
+  const showThankYou = () => {
+    setLoadingState(LoadingState.IDLE);
+    setThankYouAmount(totalAmount);
+    setTimeout(() => {
+      setThankYouAmount(null);
+      resetForm();
+    }, THANK_YOU_DURATION);
+  };
+
+  const handleMerchantUnlocked = () => {
+    setIsMerchantPinVisible(false);
+    setIsMerchantUnlocked(true);
+  };
+
+  const handleExitCustomerDisplay = async () => {
+    const saved = await updateSettings({ customerDisplay: false });
+    if (!saved) {
+      showAlert('Error', 'Failed to turn off the customer display', [{ text: 'OK' }], 'error');
+      return;
+    }
+    setIsMerchantUnlocked(false);
+  };
+
+  const handlePaymentFailure = (payment: PaymentRequestUpdate) => {
+    removePendingPayment(payment.request_id);
+    chargeResultRef.current = {
+      status: payment.status === 'DECLINED' ? 'declined' : payment.status === 'CANCELLED' ? 'cancelled' : 'failed',
+      requestId: payment.request_id,
+    };
+
     // Close the waiting screen first
     setLoadingState(LoadingState.IDLE);
 
-    const statusText = payment.status === 'DECLINED' ? 'declined' : 'failed';
+    const message = payment.status === 'EXPIRED'
+      ? 'The payment request expired before the customer responded.'
+      : `The customer has ${payment.status === 'DECLINED' ? 'declined' : 'failed'} the payment request.`;
 
     // Show alert after a brief delay to allow screen transition
     setTimeout(() => {
       showAlert(
         'Payment Not Completed',
-        `The customer has ${statusText} the payment request.`,
+        message,
         [{ text: 'OK', onPress: () => resetForm() }],
         'error'
       );
     }, 100);
   };
 
+  // Latest handlers, read by the effect below so it only re-runs when the request or screen state changes
+  const paymentHandlersRef = useRef({ handlePaymentSuccess, handlePaymentFailure });
+  paymentHandlersRef.current = { handlePaymentSuccess, handlePaymentFailure };
+
+  // React to the tracked request reaching a final status. Both handlers leave PAYMENT_WAITING,
+  // so a request is only handled once.
+  useEffect(() => {
+    if (!trackedRequest || loadingState !== LoadingState.PAYMENT_WAITING) return;
+
+    switch (trackedRequest.status) {
+      case 'COMPLETED':
+        paymentHandlersRef.current.handlePaymentSuccess(trackedRequest);
+        break;
+      case 'FAILED':
+      case 'DECLINED':
+      case 'CANCELLED':
+      case 'EXPIRED':
+        paymentHandlersRef.current.handlePaymentFailure(trackedRequest);
+        break;
+    }
+  }, [trackedRequest, loadingState]);
+
+  // Aborts the upload; an aborted request may still have reached the backend, so the sale key is kept
+  const handleCancelVerification = () => {
+    faceVerificationRef.current?.cancel();
+    setLoadingState(LoadingState.IDLE);
+    setLoadingMessage('');
+    setUploadProgress(null);
+  };
+
+  const renderTipSection = () => {
+    if (!(settings.tipsEnabled && isValidAmount && !faceVerificationComplete)) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Add a Tip</Text>
+        <View style={styles.tipSelector}>
+          <TipSelector
+            subtotal={subtotalAmount}
+            currency={currency}
+            presets={settings.tipPresets}
+            selection={tipSelection}
+            onChange={setTipSelection}
+            disabled={isLoading}
+          />
+        </View>
+
+        {tipAmount > 0 && (
+          <View style={styles.totalsCard}>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Subtotal</Text>
+              <Text style={styles.totalsValue}>{formatMoney(subtotalAmount, currency)}</Text>
+            </View>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Tip</Text>
+              <Text style={styles.totalsValue}>{formatMoney(tipAmount, currency)}</Text>
+            </View>
+            <View style={[styles.totalsRow, styles.totalsRowTotal]}>
+              <Text style={styles.totalsTotalLabel}>Total</Text>
+              <Text style={styles.totalsTotalValue}>{formatMoney(totalAmount, currency)}</Text>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderFaceVerification = () => (
+    <FaceVerificationComponent
+      onVerificationSuccess={handleFaceVerificationSuccess}
+      onVerificationError={handleFaceVerificationError}
+      idempotencyKey={saleKey}
+      disabled={isLoading || !isValidAmount}
+      amount={totalAmount}
+      tipAmount={tipAmount}
+      currency={currency}
+      description={saleDescription}
+      lineItems={lineItems}
+      ref={faceVerificationRef}
+      customerFacing={isCustomerView}
+      onUploadProgress={setUploadProgress}
+      onLoadingStateChange={(loading, message) => {
+        if (loading && message) {
+          if (message.includes('PIN')) {
+            setLoadingState(LoadingState.PIN_VERIFICATION);
+          } else if (message.includes('face')) {
+            setLoadingState(LoadingState.FACE_VERIFICATION);
+            setUploadProgress(null);
+          }
+          setLoadingMessage(message);
+        }
+      }}
+    />
+  );
 
   // Loading overlay component
   const LoadingOverlay = () => {
     if (!isLoading) return null;
 
+    const isUploading = loadingState === LoadingState.FACE_VERIFICATION && uploadProgress !== null && uploadProgress < 1;
+
     return (
       <View style={styles.loadingOverlay}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={Colors.primary} />
-          <Text style={styles.loadingText}>{loadingMessage}</Text>
+          <Text style={styles.loadingText}>
+            {isUploading ? `Uploading... ${Math.round((uploadProgress ?? 0) * 100)}%` : loadingMessage}
+          </Text>
+
+          {loadingState === LoadingState.FACE_VERIFICATION && (
+            <>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round((uploadProgress ?? 0) * 100)}%` }]} />
+              </View>
+              <TouchableOpacity style={styles.cancelVerificationButton} onPress={handleCancelVerification}>
+                <Text style={styles.cancelVerificationText}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          )}
 
           {loadingState === LoadingState.PAYMENT_SUCCESS && (
             <View style={styles.successIcon}>
@@ -193,7 +563,33 @@ export default function ScanScreen() {
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
       >
-        <Text style={styles.headerTitle}>Scan</Text>
+        <Text style={styles.headerTitle}>{isCustomerView ? 'Welcome' : 'Scan'}</Text>
+        {isCustomerView ? (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setIsMerchantPinVisible(true)}
+            accessibilityLabel="Merchant controls"
+          >
+            <Ionicons name="lock-closed" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        ) : settings.customerDisplay ? (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => setIsMerchantUnlocked(false)}
+              accessibilityLabel="Show to customer"
+            >
+              <Ionicons name="tablet-landscape" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleExitCustomerDisplay}
+              accessibilityLabel="Exit customer display"
+            >
+              <Ionicons name="exit-outline" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        ) : null}
       </LinearGradient>
 
       <ScrollView
@@ -203,78 +599,147 @@ export default function ScanScreen() {
         scrollEnabled={!isLoading} // Disable scrolling during loading
       >
 
-        {/* Amount Input Section */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Payment Amount</Text>
-          <View style={styles.amountContainer}>
-            <Text style={styles.currencySymbol}>$</Text>
-            <TextInput
-              style={styles.amountInput}
-              value={amount}
-              onChangeText={setAmount}
-              placeholder="0.00"
-              placeholderTextColor={Colors.text.muted}
-              keyboardType="numeric"
-              editable={!isLoading}
-            />
-          </View>
-        </View>
+        {isCustomerView ? (
+          !isValidAmount ? (
+            <View style={styles.welcomeCard}>
+              <Ionicons name="happy-outline" size={48} color={Colors.primary} />
+              <Text style={styles.welcomeTitle}>Welcome!</Text>
+              <Text style={styles.welcomeText}>
+                Your total will appear here when the merchant is ready.
+              </Text>
+            </View>
+          ) : (
+            <>
+              {/* Amount to approve */}
+              <View style={styles.customerAmountCard}>
+                <Text style={styles.customerAmountLabel}>Amount to approve</Text>
+                <Text style={styles.customerAmountValue}>{formatMoney(totalAmount, currency)}</Text>
+                {saleDescription ? (
+                  <Text style={styles.customerAmountDescription}>{saleDescription}</Text>
+                ) : null}
+              </View>
 
-        {/* Face Verification Section */}
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Customer Verification</Text>
-            {faceVerificationComplete && !isLoading && (
-              <TouchableOpacity onPress={resetVerification}>
-                <Text style={styles.resetText}>Reset</Text>
-              </TouchableOpacity>
-            )}
-          </View>
+              {renderTipSection()}
 
-          {faceVerificationComplete && !isLoading ? (
-            <View style={styles.verificationComplete}>
-              <View style={styles.successIconContainer}>
-                <Ionicons name="checkmark-circle" size={32} color={Colors.success} />
+              <View style={styles.section}>
+                <View style={styles.guidanceCard}>
+                  <Ionicons name="scan-outline" size={24} color={Colors.primary} />
+                  <Text style={styles.guidanceText}>
+                    Look at the camera and tap below to pay with your face.
+                  </Text>
+                </View>
+                {renderFaceVerification()}
               </View>
-              <Text style={styles.successTitle}>Customer Verified!</Text>
-              <Text style={styles.successSubtitle}>
-                Face verification completed successfully
-              </Text>
+            </>
+          )
+        ) : (
+          <>
+          {/* Charge from another app */}
+          {chargeIntent && (
+            <View style={styles.chargeBanner}>
+              <Ionicons name="link" size={20} color={Colors.primary} />
+              <View style={styles.chargeBannerInfo}>
+                <Text style={styles.chargeBannerTitle}>Charge from POS</Text>
+                {!!chargeIntent.reference && (
+                  <Text style={styles.chargeBannerText}>Ref {chargeIntent.reference}</Text>
+                )}
+              </View>
+              {!faceVerificationComplete && !isLoading && (
+                <TouchableOpacity onPress={resetForm}>
+                  <Text style={styles.resetText}>Cancel</Text>
+                </TouchableOpacity>
+              )}
             </View>
-          ) : (
-            <FaceVerificationComponent
-              onVerificationSuccess={handleFaceVerificationSuccess}
-              onVerificationError={handleFaceVerificationError}
-              disabled={isLoading || !isValidAmount}
-              amount={Math.round(parseFloat(amount || '0') * 100)} // Convert to cents
-              currency="USD"
-              description={`Payment by ${user?.business_name || 'Merchant'}`}
-              onLoadingStateChange={(loading, message) => {
-                if (loading && message) {
-                  if (message.includes('PIN')) {
-                    setLoadingState(LoadingState.PIN_VERIFICATION);
-                  } else if (message.includes('face')) {
-                    setLoadingState(LoadingState.FACE_VERIFICATION);
-                  }
-                  setLoadingMessage(message);
-                }
-              }}
-            />
           )}
-        </View>
 
-        {/* Payment Processing Status */}
-        {faceVerificationComplete && loadingState === LoadingState.PAYMENT_SUCCESS && (
+          {/* Amount Input Section */}
           <View style={styles.section}>
-            <View style={styles.processingStatus}>
-              <Ionicons name={loadingMessage.includes('complete') ? "checkmark-circle" : "send"} size={24} color={Colors.success} />
-              <Text style={styles.processingText}>
-                {loadingMessage.includes('complete')
-                  ? 'Payment completed successfully!'
-                  : 'Payment request sent to customer!'}
-              </Text>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Payment Amount</Text>
+              <View style={styles.modeToggle}>
+                {(['amount', 'items'] as const).map(mode => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.modeOption, saleMode === mode && styles.modeOptionActive]}
+                    onPress={() => setSaleMode(mode)}
+                    disabled={isLoading || faceVerificationComplete || !!chargeIntent}
+                  >
+                    <Text style={[styles.modeOptionText, saleMode === mode && styles.modeOptionTextActive]}>
+                      {mode === 'amount' ? 'Amount' : 'Items'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
+
+            {saleMode === 'amount' ? (
+              <View style={styles.amountContainer}>
+                <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
+                <TextInput
+                  style={styles.amountInput}
+                  value={amount}
+                  onChangeText={setAmount}
+                  placeholder={formatAmountInput(0, currency)}
+                  placeholderTextColor={Colors.text.muted}
+                  keyboardType="numeric"
+                  editable={!isLoading && !chargeIntent}
+                />
+              </View>
+            ) : (
+              <CartBuilder
+                products={products}
+                cart={cart}
+                onChange={setCart}
+                currency={currency}
+                onManageCatalog={() => router.push('/catalog')}
+                disabled={isLoading || faceVerificationComplete}
+              />
+            )}
+          </View>
+
+          {/* Tip Section */}
+          {renderTipSection()}
+
+          {/* Face Verification Section */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Customer Verification</Text>
+              {faceVerificationComplete && !isLoading && (
+                <TouchableOpacity onPress={resetVerification}>
+                  <Text style={styles.resetText}>Reset</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {faceVerificationComplete && !isLoading ? (
+              <View style={styles.verificationComplete}>
+                <View style={styles.successIconContainer}>
+                  <Ionicons name="checkmark-circle" size={32} color={Colors.success} />
+                </View>
+                <Text style={styles.successTitle}>Customer Verified!</Text>
+                <Text style={styles.successSubtitle}>
+                  Face verification completed successfully
+                </Text>
+              </View>
+            ) : (
+              renderFaceVerification()
+            )}
           </View>
+
+          {/* Payment Processing Status */}
+          {faceVerificationComplete && loadingState === LoadingState.PAYMENT_SUCCESS && (
+            <View style={styles.section}>
+              <View style={styles.processingStatus}>
+                <Ionicons name={loadingMessage.includes('complete') ? "checkmark-circle" : "send"} size={24} color={Colors.success} />
+                <Text style={styles.processingText}>
+                  {loadingMessage.includes('complete')
+                    ? 'Payment completed successfully!'
+                    : 'Payment request sent to customer!'}
+                </Text>
+              </View>
+            </View>
+          )}
+          </>
         )}
       </ScrollView>
 
@@ -284,12 +749,32 @@ export default function ScanScreen() {
       {/* Payment Waiting Screen */}
       <PaymentWaitingScreen
         visible={loadingState === LoadingState.PAYMENT_WAITING}
-        amount={parsedAmount || 0}
+        amount={totalAmount}
+        currency={currency}
         customerInfo="Customer"
         onCancel={handleCancelTransaction}
         paymentRequestId={paymentRequestId}
-        onPaymentSuccess={handlePaymentSuccess}
-        onPaymentFailure={handlePaymentFailure}
+        paymentUrl={paymentUrl}
+        onMerchantAccess={isCustomerView ? () => setIsMerchantPinVisible(true) : undefined}
+      />
+
+      {/* Thank-you screen after a customer-display payment */}
+      {thankYouAmount !== null && (
+        <View style={styles.thankYouOverlay}>
+          <Ionicons name="checkmark-circle" size={96} color={Colors.success} />
+          <Text style={styles.thankYouTitle}>Thank you!</Text>
+          <Text style={styles.thankYouAmount}>{formatMoney(thankYouAmount, currency)} paid</Text>
+        </View>
+      )}
+
+      {/* Receipt for the completed sale */}
+      <ReceiptModal receipt={receipt} onClose={handleReceiptClose} />
+
+      <MerchantPinModal
+        visible={isMerchantPinVisible}
+        mode="verify"
+        onClose={() => setIsMerchantPinVisible(false)}
+        onSuccess={handleMerchantUnlocked}
       />
 
       {/* Styled Alert Component */}
@@ -298,6 +783,17 @@ export default function ScanScreen() {
   );
 }
 
+const RESOLVED_STATUS_LABELS: Partial<Record<ResolvedPendingPayment['status'], string>> = {
+  COMPLETED: 'Paid',
+  DECLINED: 'Declined',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+};
+
+const formatResolvedPayment = ({ payment, status }: ResolvedPendingPayment): string =>
+  `${formatMajorAmount(payment.amount, payment.currency)} — ${RESOLVED_STATUS_LABELS[status] || status}`;
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -328,6 +824,18 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -354,6 +862,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: Colors.background.overlay,
+    borderRadius: 10,
+    padding: 3,
+  },
+  modeOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+  },
+  modeOptionActive: {
+    backgroundColor: Colors.background.primary,
+  },
+  modeOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text.secondary,
+  },
+  modeOptionTextActive: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
   amountContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -378,6 +909,46 @@ const styles = StyleSheet.create({
     color: Colors.text.primary,
     paddingVertical: 16,
   },
+  tipSelector: {
+    marginTop: 12,
+  },
+  totalsCard: {
+    backgroundColor: Colors.background.secondary,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  totalsRowTotal: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border.light,
+    marginTop: 8,
+    paddingTop: 12,
+  },
+  totalsLabel: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+  },
+  totalsValue: {
+    fontSize: 14,
+    color: Colors.text.primary,
+  },
+  totalsTotalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  totalsTotalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+  },
   verificationComplete: {
     alignItems: 'center',
     backgroundColor: Colors.background.secondary,
@@ -416,6 +987,111 @@ const styles = StyleSheet.create({
     color: Colors.success,
     flex: 1,
   },
+  chargeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: `${Colors.primary}15`,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  chargeBannerInfo: {
+    flex: 1,
+  },
+  chargeBannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.primary,
+  },
+  chargeBannerText: {
+    fontSize: 14,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  // Customer display styles
+  welcomeCard: {
+    alignItems: 'center',
+    backgroundColor: Colors.background.primary,
+    padding: 32,
+    borderRadius: 20,
+    marginTop: 40,
+  },
+  welcomeTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  welcomeText: {
+    fontSize: 16,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  customerAmountCard: {
+    alignItems: 'center',
+    backgroundColor: Colors.background.primary,
+    padding: 24,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: Colors.primary,
+    marginBottom: 24,
+  },
+  customerAmountLabel: {
+    fontSize: 16,
+    color: Colors.text.secondary,
+    marginBottom: 8,
+  },
+  customerAmountValue: {
+    fontSize: 44,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+  },
+  customerAmountDescription: {
+    fontSize: 15,
+    color: Colors.text.secondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  guidanceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: `${Colors.primary}15`,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  guidanceText: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text.primary,
+    lineHeight: 21,
+  },
+  thankYouOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: Colors.background.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1100,
+  },
+  thankYouTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: Colors.text.primary,
+    marginTop: 16,
+  },
+  thankYouAmount: {
+    fontSize: 20,
+    color: Colors.text.secondary,
+    marginTop: 8,
+  },
   // Loading overlay styles
   loadingOverlay: {
     position: 'absolute',
@@ -450,4 +1126,29 @@ const styles = StyleSheet.create({
   successIcon: {
     marginTop: 16,
   },
+  progressTrack: {
+    width: 200,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.border.light,
+    marginTop: 16,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  cancelVerificationButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border.medium,
+  },
+  cancelVerificationText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text.secondary,
+  },
 }); 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { API_CONFIG, BACKEND_ENDPOINTS, FACE_API_ENDPOINTS } from '../../constants/api';
-import { getStoredTokens, storeTokens, clearTokens, clearAllData } from '../storage/storageService';
+import { getStoredTokens, storeTokens, clearTokens, clearAllData, getStaffSession } from '../storage/storageService';
+import type { LineItem, StaffMember, StaffRole } from '../../types';
 
 // Create axios instances
 const backendAPI = axios.create({
@@ -21,6 +22,11 @@ backendAPI.interceptors.request.use(
     if (tokens?.accessToken && config.headers) {
       config.headers.Authorization = `Bearer ${tokens.accessToken}`;
     }
+    // Attributes the request to the employee at the counter and limits it to their role
+    const staffSession = await getStaffSession().catch(() => null);
+    if (staffSession?.token && config.headers) {
+      config.headers['X-Staff-Token'] = staffSession.token;
+    }
     return config;
   },
   (error: any) => Promise.reject(error)
@@ -127,6 +133,8 @@ export interface PaymentInitiateRequest {
   user_id: string;
   face_scan_id: string;
   amount: number;
+  subtotal_amount?: number;
+  tip_amount?: number;
   currency: string;
   description?: string;
 }
@@ -146,8 +154,12 @@ export interface FaceMatch {
   user_id: string;
   name?: string;
   similarity: number;
+  // Masked hints for ambiguous matches, safe to show at the counter
+  initials?: string;
+  phone_last_two?: string;
 }
 
+// Itemized sale line, amounts in minor currency units
 export interface PaymentRequest {
   request_id: string;
   user_id: string;
@@ -155,11 +167,27 @@ export interface PaymentRequest {
   amount: number;
   currency: string;
   description: string;
-  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'DECLINED';
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED';
   stripe_payment_intent_id?: string;
   created_at: string;
   updated_at: string;
   expires_at: string;
+  payment_url?: string; // Link the customer app opens, set for requests shown as a QR code
+}
+
+// How a request reaches the customer when their face was not recognized
+export type PaymentRequestChannel = 'phone' | 'qr';
+
+// Amounts in minor currency units, like the verify-face form
+export interface CreatePaymentRequestRequest {
+  channel: PaymentRequestChannel;
+  customer_phone?: string; // E.164, required for the phone channel
+  amount: number;
+  subtotal_amount: number;
+  tip_amount: number;
+  currency: string;
+  description: string;
+  line_items?: LineItem[];
 }
 
 export interface FaceVerificationResponse {
@@ -167,24 +195,87 @@ export interface FaceVerificationResponse {
   match_found: boolean;
   requires_pin: boolean;
   is_ambiguous?: boolean;
+  face_detected?: boolean;
   matches?: FaceMatch[];
   potential_user_ids?: string[];
   face_scan_id?: string;
+  pin_length?: number; // Digits in the matched customer's PIN, sent with requires_pin
   auto_payment?: boolean;
   message?: string;
   request?: PaymentRequest;
   request_id?: string;
+  // Set when the idempotency key matched an earlier submission and the existing request is returned
+  is_duplicate?: boolean;
 }
 
+// The sale travels with the PIN so the request created on success matches the verify-face form
 export interface PinVerificationRequest {
   pin: string;
   face_scan_id: string;
+  candidate_user_id?: string; // Check only this match's PIN
+  amount: number; // Minor currency units, tip included
+  subtotal_amount: number;
+  tip_amount: number;
+  currency: string;
+  description: string;
+  line_items?: LineItem[];
 }
 
 export interface PinVerificationResponse {
   success: boolean;
   verified_user_id?: string;
   message: string;
+  matches?: FaceMatch[];
+  auto_payment?: boolean;
+  request?: PaymentRequest;
+  request_id?: string;
+  is_duplicate?: boolean;
+  attempts_remaining?: number; // Wrong PINs left for this face scan, sent with rejections
+  locked_until?: string; // ISO time when a PIN lockout ends
+}
+
+// Lets callers abort a request and follow the upload of large bodies such as the face image
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: number) => void; // Fraction 0..1 of the request body sent
+}
+
+export type RefundReason = 'requested_by_customer' | 'duplicate' | 'fraudulent' | 'other';
+
+export interface RefundRequest {
+  amount?: number; // Minor currency units; omit to refund the remaining balance
+  reason: RefundReason;
+  note?: string;
+}
+
+export interface RefundResponse {
+  refund_id: string;
+  refund_status: 'succeeded' | 'pending' | 'failed';
+  transaction_status: string;
+  refunded_amount: number; // Total refunded so far, major currency units like the transaction amount
+}
+
+// Receipts are keyed by the payment request or transaction ID
+export type ReceiptChannel = 'sms' | 'email';
+
+export interface SendReceiptRequest {
+  channel: ReceiptChannel;
+  destination: string; // E.164 phone number or email address
+}
+
+export interface ReceiptResponse {
+  receipt_url: string; // Hosted copy the customer can open without the app
+}
+
+export interface CreateStaffRequest {
+  name: string;
+  role: StaffRole;
+  pin: string; // Only ever checked by the backend, never stored on the device
+}
+
+export interface StaffSessionResponse {
+  staff: StaffMember;
+  staff_token: string;
 }
 
 // Authentication API
@@ -298,6 +389,9 @@ export const stripeAPI = {
     backendAPI.post(BACKEND_ENDPOINTS.STRIPE.SYNC_STATUS),
 };
 
+const idempotencyHeaders = (idempotencyKey?: string): Record<string, string> =>
+  idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+
 // Merchant API
 export const merchantAPI = {
   getProfile: (): Promise<AxiosResponse<any>> =>
@@ -310,22 +404,71 @@ export const merchantAPI = {
     
   getPaymentRequests: (): Promise<AxiosResponse<any[]>> =>
     backendAPI.get(BACKEND_ENDPOINTS.MERCHANT.PAYMENT_REQUESTS),
+
+  // Pass the ETag of a previous response to get a bodiless 304 when nothing changed
+  getPaymentRequest: (requestId: string, etag?: string | null): Promise<AxiosResponse<PaymentRequest>> =>
+    backendAPI.get(`${BACKEND_ENDPOINTS.MERCHANT.PAYMENT_REQUESTS}/${requestId}`, {
+      headers: etag ? { 'If-None-Match': etag } : undefined,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    }),
   
+  createPaymentRequest: (data: CreatePaymentRequestRequest, idempotencyKey?: string, options: RequestOptions = {}): Promise<AxiosResponse<PaymentRequest>> =>
+    backendAPI.post(BACKEND_ENDPOINTS.MERCHANT.PAYMENT_REQUESTS, data, {
+      headers: idempotencyHeaders(idempotencyKey),
+      signal: options.signal,
+    }),
+
   cancelPaymentRequest: (requestId: string): Promise<AxiosResponse<{ message: string }>> =>
     backendAPI.post(`/payment-requests/${requestId}/cancel`),
+
+  refund: (transactionId: string, data: RefundRequest, idempotencyKey?: string): Promise<AxiosResponse<RefundResponse>> =>
+    backendAPI.post(`${BACKEND_ENDPOINTS.MERCHANT.TRANSACTIONS}/${transactionId}/refund`, data, {
+      headers: idempotencyHeaders(idempotencyKey),
+    }),
+
+  getReceipt: (referenceId: string): Promise<AxiosResponse<ReceiptResponse>> =>
+    backendAPI.get(`${BACKEND_ENDPOINTS.MERCHANT.RECEIPTS}/${referenceId}`),
+
+  sendReceipt: (referenceId: string, data: SendReceiptRequest, idempotencyKey?: string): Promise<AxiosResponse<MessageResponse>> =>
+    backendAPI.post(`${BACKEND_ENDPOINTS.MERCHANT.RECEIPTS}/${referenceId}/send`, data, {
+      headers: idempotencyHeaders(idempotencyKey),
+    }),
+
+  getStaff: (): Promise<AxiosResponse<StaffMember[]>> =>
+    backendAPI.get(BACKEND_ENDPOINTS.MERCHANT.STAFF),
+
+  createStaff: (data: CreateStaffRequest): Promise<AxiosResponse<StaffMember>> =>
+    backendAPI.post(BACKEND_ENDPOINTS.MERCHANT.STAFF, data),
+
+  deleteStaff: (staffId: string): Promise<AxiosResponse<MessageResponse>> =>
+    backendAPI.delete(`${BACKEND_ENDPOINTS.MERCHANT.STAFF}/${staffId}`),
+
+  // Checks the employee's PIN and opens a staff session for them
+  startStaffSession: (staffId: string, pin: string): Promise<AxiosResponse<StaffSessionResponse>> =>
+    backendAPI.post(`${BACKEND_ENDPOINTS.MERCHANT.STAFF}/${staffId}/session`, { pin }),
 };
 
 // // Face Recognition API
 export const faceRecognitionAPI = {
-  verifyFace: (formData: FormData): Promise<AxiosResponse<FaceVerificationResponse>> =>
+  verifyFace: (formData: FormData, idempotencyKey?: string, options: RequestOptions = {}): Promise<AxiosResponse<FaceVerificationResponse>> =>
     backendAPI.post(BACKEND_ENDPOINTS.MERCHANT.VERIFY_FACE, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
+        ...idempotencyHeaders(idempotencyKey),
       },
+      signal: options.signal,
+      onUploadProgress: options.onUploadProgress
+        ? (event) => {
+            if (event.total) options.onUploadProgress?.(event.loaded / event.total);
+          }
+        : undefined,
     }),
   
-  verifyPin: (data: PinVerificationRequest): Promise<AxiosResponse<PinVerificationResponse>> =>
-    backendAPI.post(BACKEND_ENDPOINTS.MERCHANT.VERIFY_PIN, data),
+  verifyPin: (data: PinVerificationRequest, idempotencyKey?: string, options: RequestOptions = {}): Promise<AxiosResponse<PinVerificationResponse>> =>
+    backendAPI.post(BACKEND_ENDPOINTS.MERCHANT.VERIFY_PIN, data, {
+      headers: idempotencyHeaders(idempotencyKey),
+      signal: options.signal,
+    }),
 };
 
 // Health Check
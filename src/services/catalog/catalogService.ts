@@ -0,0 +1,98 @@
+import { File, Paths } from 'expo-file-system';
+
+/**
+ * Catalog Service
+ * Keeps the merchant's product catalog in a JSON file on the device.
+ * SecureStore is meant for small secrets, so the catalog lives in the document directory instead.
+ */
+
+// Types
+export interface Product {
+  id: string;
+  name: string;
+  price: number; // Minor units of the merchant's currency
+  sku?: string;
+  category?: string;
+}
+
+export type ProductInput = Omit<Product, 'id'>;
+
+const catalogFile = () => new File(Paths.document, 'catalog.json');
+
+const writeProducts = (products: Product[]) => {
+  const file = catalogFile();
+  if (!file.exists) {
+    file.create();
+  }
+  file.write(JSON.stringify(products));
+};
+
+const createProductId = (): string =>
+  `prod_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const getProducts = async (): Promise<Product[]> => {
+  try {
+    const file = catalogFile();
+    if (!file.exists) return [];
+    const products = JSON.parse(await file.text());
+    return Array.isArray(products) ? products : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Add a new product, or replace the one with the same id
+ */
+export const saveProduct = async (input: ProductInput, id?: string): Promise<Product> => {
+  try {
+    const products = await getProducts();
+    const product: Product = { ...input, id: id || createProductId() };
+    const index = products.findIndex(p => p.id === product.id);
+
+    if (index >= 0) {
+      products[index] = product;
+    } else {
+      products.push(product);
+    }
+
+    writeProducts(products);
+    return product;
+  } catch {
+    throw new Error('Failed to save product');
+  }
+};
+
+export const deleteProduct = async (id: string): Promise<void> => {
+  try {
+    const products = await getProducts();
+    writeProducts(products.filter(p => p.id !== id));
+  } catch {
+    throw new Error('Failed to delete product');
+  }
+};
+
+/**
+ * Group products by category, uncategorized last, names sorted within each group
+ */
+export const groupProductsByCategory = (products: Product[]): { category: string; products: Product[] }[] => {
+  const groups = new Map<string, Product[]>();
+
+  [...products]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(product => {
+      const category = product.category?.trim() || 'Other';
+      groups.set(category, [...(groups.get(category) || []), product]);
+    });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (a === 'Other' ? 1 : b === 'Other' ? -1 : a.localeCompare(b)))
+    .map(([category, items]) => ({ category, products: items }));
+};
+
+export default {
+  getProducts,
+  saveProduct,
+  deleteProduct,
+  groupProductsByCategory,
+};
@@ -1,3 +1,9 @@
 // Services
 export { default as apiService } from './api/apiService';
 export * from './storage/storageService';
+export { default as paymentStatusService } from './payments/paymentStatusService';
+export { default as pendingPaymentsService } from './payments/pendingPaymentsService';
+export { default as catalogService } from './catalog/catalogService';
+export { default as receiptService } from './receipts/receiptService';
+export { default as printerService } from './printing/printerService';
+export { default as merchantPinService } from './security/merchantPinService';
@@ -0,0 +1,43 @@
+import { Linking } from 'react-native';
+import { ChargeIntent, ChargeResult, buildCallbackUrl } from '../../utils/chargeIntent';
+
+/**
+ * Charge Intent Service
+ * Hands a validated fpmerchant://charge request from the charge route to the Scan screen,
+ * and sends the caller back to its callback once the sale ends
+ */
+
+// Kept in memory only: a charge left over from a previous launch must never start by itself
+let pendingIntent: ChargeIntent | null = null;
+
+export const setPendingCharge = (intent: ChargeIntent) => {
+  pendingIntent = intent;
+};
+
+/**
+ * The waiting charge, if any. Each charge is handed out once.
+ */
+export const takePendingCharge = (): ChargeIntent | null => {
+  const intent = pendingIntent;
+  pendingIntent = null;
+  return intent;
+};
+
+/**
+ * Open the caller's callback with the result. Callers without a callback are not told anything.
+ */
+export const returnToCaller = async (intent: ChargeIntent, result: ChargeResult): Promise<void> => {
+  if (!intent.callbackUrl) return;
+
+  try {
+    await Linking.openURL(buildCallbackUrl(intent.callbackUrl, result, intent));
+  } catch {
+    // The calling app was uninstalled or cannot handle its own callback; the sale itself is unaffected
+  }
+};
+
+export default {
+  setPendingCharge,
+  takePendingCharge,
+  returnToCaller,
+};
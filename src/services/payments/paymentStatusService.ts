@@ -0,0 +1,297 @@
+import { API_CONFIG, BACKEND_ENDPOINTS, PAYMENT_STATUS_CONFIG } from '../../constants/api';
+import apiService, { PaymentRequest } from '../api/apiService';
+import { getStoredTokens } from '../storage/storageService';
+
+/**
+ * Payment Status Service
+ * Streams status changes for a single payment request over a WebSocket and
+ * falls back to adaptive polling while the socket is unavailable.
+ * Subscribers to the same request share one channel.
+ */
+
+// Types
+export type PaymentStatus = PaymentRequest['status'];
+export type PaymentStatusTransport = 'socket' | 'polling';
+
+export type PaymentRequestUpdate = Partial<PaymentRequest> & Pick<PaymentRequest, 'request_id' | 'status'>;
+
+export interface PaymentStatusSnapshot {
+  request: PaymentRequestUpdate;
+  transport: PaymentStatusTransport;
+}
+
+export type PaymentStatusListener = (snapshot: PaymentStatusSnapshot) => void;
+
+interface PaymentStatusChannel {
+  requestId: string;
+  listeners: Set<PaymentStatusListener>;
+  latest: PaymentRequestUpdate | null;
+  transport: PaymentStatusTransport;
+  socket: WebSocket | null;
+  socketReconnects: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  pollInterval: number;
+  etag: string | null;
+  closed: boolean;
+}
+
+const TERMINAL_STATUSES: PaymentStatus[] = ['COMPLETED', 'FAILED', 'DECLINED', 'CANCELLED', 'EXPIRED'];
+
+const channels = new Map<string, PaymentStatusChannel>();
+
+export const isTerminalPaymentStatus = (status: PaymentStatus): boolean =>
+  TERMINAL_STATUSES.includes(status);
+
+const emit = (channel: PaymentStatusChannel) => {
+  if (!channel.latest) return;
+  const snapshot: PaymentStatusSnapshot = { request: channel.latest, transport: channel.transport };
+  channel.listeners.forEach(listener => listener(snapshot));
+};
+
+/**
+ * Merge an update into the channel. Returns true if anything the UI cares about changed.
+ */
+const applyUpdate = (channel: PaymentStatusChannel, update: PaymentRequestUpdate): boolean => {
+  const previous = channel.latest;
+  channel.latest = { ...previous, ...update };
+
+  const changed = !previous ||
+    previous.status !== update.status ||
+    (update.expires_at !== undefined && previous.expires_at !== update.expires_at);
+
+  if (changed) {
+    emit(channel);
+  }
+
+  if (isTerminalPaymentStatus(update.status)) {
+    stopTransports(channel);
+  }
+
+  return changed;
+};
+
+const setTransport = (channel: PaymentStatusChannel, transport: PaymentStatusTransport) => {
+  if (channel.transport === transport) return;
+  channel.transport = transport;
+  emit(channel);
+};
+
+const isSettled = (channel: PaymentStatusChannel): boolean =>
+  channel.closed || (!!channel.latest && isTerminalPaymentStatus(channel.latest.status));
+
+// ============================================
+// Polling fallback
+// ============================================
+
+/**
+ * Fetch the request, or null when the server reports it unchanged since the last poll
+ */
+const fetchRequest = async (channel: PaymentStatusChannel): Promise<PaymentRequest | null> => {
+  const response = await apiService.merchant.getPaymentRequest(channel.requestId, channel.etag);
+  if (response.status === 304) {
+    return null;
+  }
+
+  channel.etag = response.headers?.etag ?? null;
+  return response.data;
+};
+
+const schedulePoll = (channel: PaymentStatusChannel, delay: number) => {
+  if (channel.pollTimer) {
+    clearTimeout(channel.pollTimer);
+  }
+  channel.pollTimer = setTimeout(() => {
+    channel.pollTimer = null;
+    poll(channel);
+  }, delay);
+};
+
+const poll = async (channel: PaymentStatusChannel) => {
+  if (isSettled(channel)) return;
+
+  let nextInterval: number;
+  try {
+    const request = await fetchRequest(channel);
+    const changed = request ? applyUpdate(channel, request) : false;
+
+    // Back to the fast rate on any change, otherwise ease off
+    nextInterval = changed
+      ? PAYMENT_STATUS_CONFIG.POLL_INITIAL_INTERVAL
+      : channel.pollInterval * PAYMENT_STATUS_CONFIG.POLL_BACKOFF_FACTOR;
+  } catch {
+    nextInterval = channel.pollInterval * PAYMENT_STATUS_CONFIG.POLL_ERROR_BACKOFF_FACTOR;
+  }
+
+  channel.pollInterval = Math.min(nextInterval, PAYMENT_STATUS_CONFIG.POLL_MAX_INTERVAL);
+
+  // The socket may have taken over while the request was in flight
+  if (!isSettled(channel) && channel.transport === 'polling') {
+    schedulePoll(channel, channel.pollInterval);
+  }
+};
+
+const startPolling = (channel: PaymentStatusChannel) => {
+  setTransport(channel, 'polling');
+  if (!channel.pollTimer) {
+    channel.pollInterval = PAYMENT_STATUS_CONFIG.POLL_INITIAL_INTERVAL;
+    schedulePoll(channel, channel.pollInterval);
+  }
+};
+
+const stopPolling = (channel: PaymentStatusChannel) => {
+  if (channel.pollTimer) {
+    clearTimeout(channel.pollTimer);
+    channel.pollTimer = null;
+  }
+};
+
+// ============================================
+// WebSocket channel
+// ============================================
+
+const parseSocketMessage = (raw: unknown, requestId: string): PaymentRequestUpdate | null => {
+  if (typeof raw !== 'string') return null;
+
+  try {
+    const message = JSON.parse(raw);
+    // Accept both a bare request and an envelope such as { type, request }
+    const payload = message?.request ?? message;
+    if (payload?.request_id !== requestId || typeof payload?.status !== 'string') {
+      return null;
+    }
+    return payload as PaymentRequestUpdate;
+  } catch {
+    return null;
+  }
+};
+
+const connectSocket = async (channel: PaymentStatusChannel) => {
+  if (isSettled(channel) || typeof WebSocket === 'undefined') {
+    startPolling(channel);
+    return;
+  }
+
+  const tokens = await getStoredTokens();
+  if (!tokens?.accessToken || isSettled(channel)) {
+    startPolling(channel);
+    return;
+  }
+
+  const path = `${BACKEND_ENDPOINTS.MERCHANT.PAYMENT_REQUESTS}/${channel.requestId}/events`;
+  const url = `${API_CONFIG.SOCKET_URL}${path}`;
+
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch {
+    startPolling(channel);
+    return;
+  }
+  channel.socket = socket;
+
+  socket.onopen = () => {
+    // Authenticate with the first message rather than the URL, which ends up in server and proxy logs.
+    // Browsers cannot set headers on a WebSocket, so this also works on web.
+    socket.send(JSON.stringify({ type: 'auth', token: tokens.accessToken }));
+    channel.socketReconnects = 0;
+    stopPolling(channel);
+    setTransport(channel, 'socket');
+  };
+
+  socket.onmessage = (event) => {
+    const update = parseSocketMessage(event.data, channel.requestId);
+    if (update) {
+      applyUpdate(channel, update);
+    }
+  };
+
+  socket.onerror = () => {
+    // onclose always follows, recovery happens there
+  };
+
+  socket.onclose = () => {
+    if (channel.socket !== socket) return;
+    channel.socket = null;
+    if (isSettled(channel)) return;
+
+    // Keep the merchant informed by polling while we try to get the socket back
+    startPolling(channel);
+    if (channel.socketReconnects < PAYMENT_STATUS_CONFIG.SOCKET_MAX_RECONNECTS) {
+      channel.socketReconnects += 1;
+      channel.reconnectTimer = setTimeout(() => {
+        channel.reconnectTimer = null;
+        connectSocket(channel);
+      }, PAYMENT_STATUS_CONFIG.SOCKET_RECONNECT_DELAY * channel.socketReconnects);
+    }
+  };
+};
+
+const stopTransports = (channel: PaymentStatusChannel) => {
+  stopPolling(channel);
+  if (channel.reconnectTimer) {
+    clearTimeout(channel.reconnectTimer);
+    channel.reconnectTimer = null;
+  }
+  if (channel.socket) {
+    const socket = channel.socket;
+    channel.socket = null;
+    socket.close();
+  }
+};
+
+const openChannel = (requestId: string): PaymentStatusChannel => {
+  const channel: PaymentStatusChannel = {
+    requestId,
+    listeners: new Set(),
+    latest: null,
+    transport: 'polling',
+    socket: null,
+    socketReconnects: 0,
+    reconnectTimer: null,
+    pollTimer: null,
+    pollInterval: PAYMENT_STATUS_CONFIG.POLL_INITIAL_INTERVAL,
+    etag: null,
+    closed: false,
+  };
+
+  channels.set(requestId, channel);
+
+  // Fetch once up front so a status that changed before we subscribed is not missed
+  poll(channel);
+  connectSocket(channel);
+
+  return channel;
+};
+
+const closeChannel = (channel: PaymentStatusChannel) => {
+  channel.closed = true;
+  stopTransports(channel);
+  channels.delete(channel.requestId);
+};
+
+/**
+ * Subscribe to status changes of one payment request.
+ * The listener receives the latest known state immediately if there is one.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToPaymentStatus = (requestId: string, listener: PaymentStatusListener): (() => void) => {
+  const channel = channels.get(requestId) ?? openChannel(requestId);
+  channel.listeners.add(listener);
+
+  if (channel.latest) {
+    listener({ request: channel.latest, transport: channel.transport });
+  }
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size === 0) {
+      closeChannel(channel);
+    }
+  };
+};
+
+export default {
+  subscribeToPaymentStatus,
+  isTerminalPaymentStatus,
+};
@@ -0,0 +1,66 @@
+import apiService, { PaymentRequest } from '../api/apiService';
+import { PendingPayment, getPendingPayments, removePendingPayment } from '../storage/storageService';
+import { isTerminalPaymentStatus } from './paymentStatusService';
+import { isExpired } from '../../utils/timeUtils';
+
+/**
+ * Pending Payments Service
+ * Reconciles payment requests that were still waiting on the customer
+ * when the app was last closed
+ */
+
+export interface ResolvedPendingPayment {
+  payment: PendingPayment;
+  status: PaymentRequest['status'];
+}
+
+export interface PendingPaymentsReconciliation {
+  // Most recent request the customer can still act on
+  active: PendingPayment | null;
+  // Requests that reached a final status while the app was closed
+  resolved: ResolvedPendingPayment[];
+}
+
+/**
+ * Check every stored request against the backend.
+ * Resolved requests are removed from storage; the newest open one is returned for resuming.
+ * Requests that cannot be checked right now stay stored for the next attempt.
+ */
+export const reconcilePendingPayments = async (): Promise<PendingPaymentsReconciliation> => {
+  const pending = await getPendingPayments();
+  const resolved: ResolvedPendingPayment[] = [];
+  const open: PendingPayment[] = [];
+
+  for (const payment of pending) {
+    try {
+      const response = await apiService.merchant.getPaymentRequest(payment.request_id);
+      const request = response.data;
+      const expiresAt = request.expires_at || payment.expires_at;
+
+      if (isTerminalPaymentStatus(request.status)) {
+        resolved.push({ payment, status: request.status });
+        await removePendingPayment(payment.request_id);
+      } else if (expiresAt && isExpired(expiresAt)) {
+        resolved.push({ payment, status: 'EXPIRED' });
+        await removePendingPayment(payment.request_id);
+      } else {
+        open.push({ ...payment, expires_at: expiresAt });
+      }
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        // The backend no longer knows this request, nothing left to track
+        await removePendingPayment(payment.request_id);
+      } else if (!payment.expires_at || !isExpired(payment.expires_at)) {
+        open.push(payment);
+      }
+    }
+  }
+
+  const active = open.sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null;
+
+  return { active, resolved };
+};
+
+export default {
+  reconcilePendingPayments,
+};
@@ -0,0 +1,108 @@
+import TcpSocket from 'react-native-tcp-socket';
+import * as Network from 'expo-network';
+import { PRINTER_CONFIG } from '@/constants/settings';
+import type { PrinterConfig } from '@/services/storage/storageService';
+import { PAPER_COLUMNS, encodeReceipt, encodeTestPage } from '@/utils/escpos';
+import type { Receipt } from '@/utils/receipt';
+
+/**
+ * Printer Service
+ * Sends ESC/POS byte streams to LAN thermal printers over raw TCP.
+ * Run `npm run printer-stub` on a computer on the same network to stand in for a printer.
+ */
+
+const PRIVATE_IPV4 = /^(10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/;
+
+/**
+ * Open a connection, write the bytes and close it. Rejects when the printer cannot be
+ * reached or stops responding, so callers can tell the merchant nothing was printed.
+ */
+export const sendToPrinter = (
+  printer: Pick<PrinterConfig, 'host' | 'port'>,
+  data: Uint8Array,
+  timeout: number = PRINTER_CONFIG.CONNECT_TIMEOUT
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.setTimeout(0);
+      if (error) {
+        socket.destroy();
+        reject(error);
+      } else {
+        // Let the printer drain the stream before the connection is torn down
+        socket.end();
+        resolve();
+      }
+    };
+
+    const socket = TcpSocket.createConnection(
+      { host: printer.host, port: printer.port, connectTimeout: timeout },
+      () => {
+        socket.write(data, undefined, (error) => finish(error));
+      }
+    );
+
+    socket.setTimeout(timeout, () => finish(new Error('The printer did not respond')));
+    socket.on('error', (error) => finish(error instanceof Error ? error : new Error(String(error))));
+  });
+
+/**
+ * Whether something accepts connections on the address, without sending anything
+ */
+export const probePrinter = (host: string, port: number, timeout: number): Promise<boolean> =>
+  new Promise((resolve) => {
+    let settled = false;
+    const finish = (found: boolean) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve(found);
+    };
+
+    const socket = TcpSocket.createConnection({ host, port, connectTimeout: timeout }, () => finish(true));
+    socket.setTimeout(timeout, () => finish(false));
+    socket.on('error', () => finish(false));
+  });
+
+/**
+ * Scan the device's /24 subnet for open raw printing ports. Only works on a private IPv4 network.
+ */
+export const discoverPrinters = async (port: number = PRINTER_CONFIG.DEFAULT_PORT): Promise<string[]> => {
+  const deviceIp = await Network.getIpAddressAsync();
+  if (!PRIVATE_IPV4.test(deviceIp)) {
+    return [];
+  }
+
+  const prefix = deviceIp.split('.').slice(0, 3).join('.');
+  const hosts = Array.from({ length: 254 }, (_, index) => `${prefix}.${index + 1}`)
+    .filter(host => host !== deviceIp);
+
+  const found: string[] = [];
+  for (let start = 0; start < hosts.length; start += PRINTER_CONFIG.DISCOVERY_CONCURRENCY) {
+    const batch = hosts.slice(start, start + PRINTER_CONFIG.DISCOVERY_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(host => probePrinter(host, port, PRINTER_CONFIG.DISCOVERY_TIMEOUT))
+    );
+    batch.forEach((host, index) => {
+      if (results[index]) found.push(host);
+    });
+  }
+  return found;
+};
+
+export const printReceipt = (printer: PrinterConfig, receipt: Receipt, receiptUrl?: string | null): Promise<void> =>
+  sendToPrinter(printer, encodeReceipt(receipt, { columns: PAPER_COLUMNS[printer.paperWidth], receiptUrl }));
+
+export const printTestPage = (printer: PrinterConfig): Promise<void> =>
+  sendToPrinter(printer, encodeTestPage(PAPER_COLUMNS[printer.paperWidth]));
+
+export default {
+  sendToPrinter,
+  probePrinter,
+  discoverPrinters,
+  printReceipt,
+  printTestPage,
+};
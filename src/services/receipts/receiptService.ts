@@ -0,0 +1,59 @@
+import { Share } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import apiService, { ReceiptChannel } from '@/services/api/apiService';
+import { Receipt, formatReceiptHtml, formatReceiptText } from '@/utils/receipt';
+
+/**
+ * Receipt Service
+ * Shares receipts from the device and asks the backend for the hosted copy or to deliver it.
+ * The hosted link is optional everywhere, so receipts still work when the backend cannot be reached.
+ */
+
+/**
+ * Link to the hosted copy, null when the backend has none yet
+ */
+export const getReceiptUrl = async (reference: string): Promise<string | null> => {
+  try {
+    const response = await apiService.merchant.getReceipt(reference);
+    return response.data?.receipt_url || null;
+  } catch {
+    return null;
+  }
+};
+
+export const shareReceiptText = async (receipt: Receipt, receiptUrl?: string | null): Promise<void> => {
+  await Share.share({
+    title: `Receipt from ${receipt.merchantName}`,
+    message: formatReceiptText(receipt, receiptUrl),
+  });
+};
+
+export const shareReceiptPdf = async (receipt: Receipt, receiptUrl?: string | null): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const { uri } = await Print.printToFileAsync({ html: formatReceiptHtml(receipt, receiptUrl) });
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: `Receipt ${receipt.reference}`,
+  });
+};
+
+export const sendReceipt = async (
+  receipt: Receipt,
+  channel: ReceiptChannel,
+  destination: string,
+  idempotencyKey?: string
+): Promise<void> => {
+  await apiService.merchant.sendReceipt(receipt.reference, { channel, destination }, idempotencyKey);
+};
+
+export default {
+  getReceiptUrl,
+  shareReceiptText,
+  shareReceiptPdf,
+  sendReceipt,
+};
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import {
+  MERCHANT_PIN_LOCKOUT,
+  checkMerchantPin,
+  getLockoutDuration,
+  getMerchantPinLock,
+  hasMerchantPin,
+  setMerchantPin,
+} from '../merchantPinService';
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    digestStringAsync: async (_algorithm: string, data: string) => nodeCrypto.createHash('sha256').update(data).digest('hex'),
+    getRandomBytes: (count: number) => new Uint8Array(nodeCrypto.randomBytes(count)),
+  };
+});
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../storage/storageService', () => ({
+  storeMerchantPin: async (record: unknown) => { mockStore.set('pin', record); },
+  getMerchantPin: async () => mockStore.get('pin') ?? null,
+  storeMerchantPinAttempts: async (attempts: unknown) => { mockStore.set('attempts', attempts); },
+  getMerchantPinAttempts: async () => mockStore.get('attempts') ?? null,
+  clearMerchantPinAttempts: async () => { mockStore.delete('attempts'); },
+}));
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const SECOND = 1000;
+
+const failTimes = async (count: number, now: number = NOW) => {
+  for (let i = 0; i < count; i += 1) {
+    await checkMerchantPin('0000', now);
+  }
+};
+
+describe('merchantPinService', () => {
+  beforeEach(() => {
+    mockStore.clear();
+  });
+
+  it('accepts anything while no PIN is saved', async () => {
+    expect(await hasMerchantPin()).toBe(false);
+    expect(await checkMerchantPin('9999', NOW)).toEqual({ kind: 'Accepted' });
+  });
+
+  it('stores a salted hash instead of the PIN', async () => {
+    await setMerchantPin('2468');
+    const first = mockStore.get('pin') as { salt: string; hash: string };
+    await setMerchantPin('2468');
+    const second = mockStore.get('pin') as { salt: string; hash: string };
+
+    expect(JSON.stringify(first)).not.toContain('2468');
+    expect(first.hash).toBe(createHash('sha256').update(`${first.salt}:2468`).digest('hex'));
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.hash).not.toBe(first.hash);
+    expect(await hasMerchantPin()).toBe(true);
+  });
+
+  it('accepts the saved PIN and rejects others', async () => {
+    await setMerchantPin('2468');
+
+    expect(await checkMerchantPin('2468', NOW)).toEqual({ kind: 'Accepted' });
+    expect(await checkMerchantPin('1357', NOW)).toEqual({
+      kind: 'Rejected',
+      attemptsRemaining: MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - 1,
+      lockedUntil: null,
+    });
+  });
+
+  it('locks after the free attempts and ignores entries while locked', async () => {
+    await setMerchantPin('2468');
+    await failTimes(MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - 1);
+
+    const lockedUntil = new Date(NOW + MERCHANT_PIN_LOCKOUT.BASE_DURATION).toISOString();
+    expect(await checkMerchantPin('1357', NOW)).toEqual({ kind: 'Rejected', attemptsRemaining: 0, lockedUntil });
+    expect(await getMerchantPinLock(NOW)).toBe(lockedUntil);
+
+    // Even the right PIN is not checked until the lock runs out
+    expect(await checkMerchantPin('2468', NOW + SECOND)).toEqual({ kind: 'Locked', lockedUntil });
+    expect(mockStore.get('attempts')).toEqual({ failures: MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS, lockedUntil });
+  });
+
+  it('doubles the lockout for every further wrong PIN', async () => {
+    await setMerchantPin('2468');
+    await failTimes(MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS);
+
+    const later = NOW + MERCHANT_PIN_LOCKOUT.BASE_DURATION;
+    expect(await checkMerchantPin('1357', later)).toMatchObject({
+      lockedUntil: new Date(later + 2 * MERCHANT_PIN_LOCKOUT.BASE_DURATION).toISOString(),
+    });
+  });
+
+  it('clears the count after the right PIN', async () => {
+    await setMerchantPin('2468');
+    await failTimes(MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - 1);
+
+    expect(await checkMerchantPin('2468', NOW)).toEqual({ kind: 'Accepted' });
+    expect(await checkMerchantPin('1357', NOW)).toMatchObject({ attemptsRemaining: MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - 1 });
+  });
+
+  it('forgets wrong entries when a new PIN is saved', async () => {
+    await setMerchantPin('2468');
+    await failTimes(MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS);
+
+    await setMerchantPin('1357');
+    expect(await getMerchantPinLock(NOW)).toBeNull();
+    expect(await checkMerchantPin('1357', NOW)).toEqual({ kind: 'Accepted' });
+  });
+
+  it.each([
+    [0, 0],
+    [MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - 1, 0],
+    [MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS, MERCHANT_PIN_LOCKOUT.BASE_DURATION],
+    [MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS + 1, 2 * MERCHANT_PIN_LOCKOUT.BASE_DURATION],
+    [MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS + 3, 8 * MERCHANT_PIN_LOCKOUT.BASE_DURATION],
+    [MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS + 20, MERCHANT_PIN_LOCKOUT.MAX_DURATION],
+  ])('locks for the right time after %i wrong PINs', (failures, duration) => {
+    expect(getLockoutDuration(failures)).toBe(duration);
+  });
+});
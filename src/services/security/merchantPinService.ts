@@ -0,0 +1,106 @@
+import * as Crypto from 'expo-crypto';
+import {
+  MerchantPinAttempts,
+  clearMerchantPinAttempts,
+  getMerchantPin,
+  getMerchantPinAttempts,
+  storeMerchantPin,
+  storeMerchantPinAttempts,
+} from '../storage/storageService';
+
+/**
+ * Merchant PIN Service
+ * Sets and checks the merchant PIN that guards the customer display.
+ * The PIN is stored as a salted hash, and repeated wrong entries lock the prompt for a growing time
+ * so a customer at the counter cannot work through all 4-digit PINs.
+ */
+
+// Types
+export type MerchantPinCheck =
+  | { kind: 'Accepted' }
+  | { kind: 'Rejected'; attemptsRemaining: number; lockedUntil: string | null }
+  | { kind: 'Locked'; lockedUntil: string };
+
+export const MERCHANT_PIN_LOCKOUT = {
+  FREE_ATTEMPTS: 3, // Wrong PINs allowed before the first lockout
+  BASE_DURATION: 30 * 1000, // First lockout, doubled for every further wrong PIN
+  MAX_DURATION: 60 * 60 * 1000,
+};
+
+const SALT_BYTES = 16;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = (pin: string, salt: string): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+/**
+ * Lockout after the given number of wrong PINs in a row, in milliseconds
+ */
+export const getLockoutDuration = (failures: number): number => {
+  if (failures < MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS) return 0;
+  const doublings = failures - MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS;
+  return Math.min(MERCHANT_PIN_LOCKOUT.BASE_DURATION * 2 ** doublings, MERCHANT_PIN_LOCKOUT.MAX_DURATION);
+};
+
+const isLocked = (attempts: MerchantPinAttempts | null, now: number): attempts is MerchantPinAttempts & { lockedUntil: string } =>
+  !!attempts?.lockedUntil && Date.parse(attempts.lockedUntil) > now;
+
+export const hasMerchantPin = async (): Promise<boolean> => !!(await getMerchantPin());
+
+/**
+ * Save a new merchant PIN and forget earlier wrong entries
+ */
+export const setMerchantPin = async (pin: string): Promise<void> => {
+  const salt = toHex(Crypto.getRandomBytes(SALT_BYTES));
+  await storeMerchantPin({ salt, hash: await hashPin(pin, salt) });
+  await clearMerchantPinAttempts();
+};
+
+/**
+ * ISO time the prompt unlocks again, or null when it is not locked
+ */
+export const getMerchantPinLock = async (now: number = Date.now()): Promise<string | null> => {
+  const attempts = await getMerchantPinAttempts();
+  return isLocked(attempts, now) ? attempts.lockedUntil : null;
+};
+
+/**
+ * Check an entered PIN. Without a saved PIN every entry is accepted so a device cannot get stuck
+ * in customer mode. Entries made while locked are not checked and do not count.
+ */
+export const checkMerchantPin = async (pin: string, now: number = Date.now()): Promise<MerchantPinCheck> => {
+  const record = await getMerchantPin();
+  if (!record) {
+    return { kind: 'Accepted' };
+  }
+
+  const attempts = await getMerchantPinAttempts();
+  if (isLocked(attempts, now)) {
+    return { kind: 'Locked', lockedUntil: attempts.lockedUntil };
+  }
+
+  if (await hashPin(pin, record.salt) === record.hash) {
+    await clearMerchantPinAttempts();
+    return { kind: 'Accepted' };
+  }
+
+  const failures = (attempts?.failures ?? 0) + 1;
+  const duration = getLockoutDuration(failures);
+  const lockedUntil = duration > 0 ? new Date(now + duration).toISOString() : null;
+  await storeMerchantPinAttempts({ failures, lockedUntil });
+
+  return {
+    kind: 'Rejected',
+    attemptsRemaining: Math.max(0, MERCHANT_PIN_LOCKOUT.FREE_ATTEMPTS - failures),
+    lockedUntil,
+  };
+};
+
+export default {
+  hasMerchantPin,
+  setMerchantPin,
+  getMerchantPinLock,
+  checkMerchantPin,
+};
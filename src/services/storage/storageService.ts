@@ -1,4 +1,5 @@
 import * as SecureStore from 'expo-secure-store';
+import type { StaffMember } from '../../types';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -7,6 +8,11 @@ const STORAGE_KEYS = {
   USER_DATA: 'user_data',
   EMAIL_TOKEN: 'email_token',
   ONBOARDING_STATUS: 'onboarding_status',
+  PENDING_PAYMENTS: 'pending_payments',
+  MERCHANT_SETTINGS: 'merchant_settings',
+  MERCHANT_PIN: 'merchant_pin',
+  MERCHANT_PIN_ATTEMPTS: 'merchant_pin_attempts',
+  STAFF_SESSION: 'staff_session',
 };
 
 // Types
@@ -23,6 +29,57 @@ export interface UserData {
   mobile_verified: boolean;
   stripe_account_status: string;
   payout_enabled: boolean;
+  currency?: string; // Settlement currency of the connected Stripe account
+}
+
+// Payment request awaiting the customer, kept so it survives an app restart
+export interface PendingPayment {
+  request_id: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  expires_at: string | null;
+  created_at: string;
+  payment_url?: string; // QR fallback requests, shown again when the sale is resumed
+}
+
+// Employee signed in under the merchant login after entering their staff PIN
+export interface StaffSession {
+  staff: StaffMember;
+  token: string; // Sent with every request so the backend attributes and authorizes it
+}
+
+// Device-level preferences configured by the merchant
+export type CameraFacing = 'front' | 'back';
+
+// LAN thermal printer reached over raw TCP, usually port 9100
+export interface PrinterConfig {
+  host: string;
+  port: number;
+  paperWidth: 58 | 80; // Roll width in millimetres, sets the characters per line
+}
+
+export interface MerchantSettings {
+  tipsEnabled: boolean;
+  tipPresets: number[]; // Percentages offered on the tip step
+  cameraFacing: CameraFacing; // Lens the scan modal opens with, e.g. 'back' on a customer-facing tablet
+  shufflePinPad: boolean; // Randomize the customer PIN keypad layout
+  matchHintsEnabled: boolean; // Let customers pick their masked hint when several faces match
+  customerDisplay: boolean; // Device faces the customer; merchant controls need the merchant PIN
+  printer: PrinterConfig | null;
+  autoPrintReceipts: boolean; // Print a receipt as soon as a payment completes
+  chargeCallbackOrigins: string[]; // Apps allowed to start a sale by deep link and receive the result
+}
+
+// The merchant PIN is kept as a salted SHA-256 hash, never as the PIN itself
+export interface MerchantPinRecord {
+  salt: string;
+  hash: string;
+}
+
+export interface MerchantPinAttempts {
+  failures: number; // Wrong entries since the last correct one
+  lockedUntil: string | null; // ISO time the prompt unlocks again
 }
 
 // Token management
@@ -122,13 +179,157 @@ export const getOnboardingStatus = async (): Promise<string | null> => {
   }
 };
 
-// Clear all stored data
+// Pending payment requests
+export const getPendingPayments = async (): Promise<PendingPayment[]> => {
+  try {
+    const pending = await SecureStore.getItemAsync(STORAGE_KEYS.PENDING_PAYMENTS);
+    return pending ? JSON.parse(pending) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storePendingPayment = async (payment: PendingPayment): Promise<void> => {
+  try {
+    const pending = await getPendingPayments();
+    const others = pending.filter(p => p.request_id !== payment.request_id);
+    await SecureStore.setItemAsync(STORAGE_KEYS.PENDING_PAYMENTS, JSON.stringify([...others, payment]));
+  } catch {
+    throw new Error('Failed to store pending payment');
+  }
+};
+
+export const removePendingPayment = async (requestId: string): Promise<void> => {
+  try {
+    const pending = await getPendingPayments();
+    await SecureStore.setItemAsync(
+      STORAGE_KEYS.PENDING_PAYMENTS,
+      JSON.stringify(pending.filter(p => p.request_id !== requestId))
+    );
+  } catch {
+  }
+};
+
+export const clearPendingPayments = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.PENDING_PAYMENTS);
+  } catch {
+  }
+};
+
+// Merchant settings
+export const storeMerchantSettings = async (settings: MerchantSettings): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(STORAGE_KEYS.MERCHANT_SETTINGS, JSON.stringify(settings));
+  } catch {
+    throw new Error('Failed to store merchant settings');
+  }
+};
+
+export const getMerchantSettings = async (): Promise<Partial<MerchantSettings> | null> => {
+  try {
+    const settings = await SecureStore.getItemAsync(STORAGE_KEYS.MERCHANT_SETTINGS);
+    return settings ? JSON.parse(settings) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearMerchantSettings = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.MERCHANT_SETTINGS);
+  } catch {
+  }
+};
+
+// Merchant PIN guarding the customer display, kept apart from settings so it is never loaded into context
+export const storeMerchantPin = async (record: MerchantPinRecord): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(STORAGE_KEYS.MERCHANT_PIN, JSON.stringify(record));
+  } catch {
+    throw new Error('Failed to store merchant PIN');
+  }
+};
+
+export const getMerchantPin = async (): Promise<MerchantPinRecord | null> => {
+  try {
+    const record = await SecureStore.getItemAsync(STORAGE_KEYS.MERCHANT_PIN);
+    return record ? JSON.parse(record) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearMerchantPin = async (): Promise<void> => {
+  try {
+    await Promise.all([
+      SecureStore.deleteItemAsync(STORAGE_KEYS.MERCHANT_PIN),
+      clearMerchantPinAttempts(),
+    ]);
+  } catch {
+  }
+};
+
+// Wrong merchant PIN entries, kept so closing the prompt or restarting the app does not lift a lockout
+export const storeMerchantPinAttempts = async (attempts: MerchantPinAttempts): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(STORAGE_KEYS.MERCHANT_PIN_ATTEMPTS, JSON.stringify(attempts));
+  } catch {
+    throw new Error('Failed to store merchant PIN attempts');
+  }
+};
+
+export const getMerchantPinAttempts = async (): Promise<MerchantPinAttempts | null> => {
+  try {
+    const attempts = await SecureStore.getItemAsync(STORAGE_KEYS.MERCHANT_PIN_ATTEMPTS);
+    return attempts ? JSON.parse(attempts) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearMerchantPinAttempts = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.MERCHANT_PIN_ATTEMPTS);
+  } catch {
+  }
+};
+
+// Staff session
+export const storeStaffSession = async (session: StaffSession): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(STORAGE_KEYS.STAFF_SESSION, JSON.stringify(session));
+  } catch {
+    throw new Error('Failed to store staff session');
+  }
+};
+
+// Throws when the session cannot be read, so callers do not mistake a failed read for the owner
+export const getStaffSession = async (): Promise<StaffSession | null> => {
+  try {
+    const session = await SecureStore.getItemAsync(STORAGE_KEYS.STAFF_SESSION);
+    return session ? JSON.parse(session) : null;
+  } catch {
+    throw new Error('Failed to read staff session');
+  }
+};
+
+export const clearStaffSession = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.STAFF_SESSION);
+  } catch {
+  }
+};
+
+// Clear all stored data (merchant settings and PIN belong to the device and survive logout)
 export const clearAllData = async (): Promise<void> => {
   try {
     await Promise.all([
       clearTokens(),
       clearUserData(),
       clearEmailToken(),
+      clearPendingPayments(),
+      clearStaffSession(),
       SecureStore.deleteItemAsync(STORAGE_KEYS.ONBOARDING_STATUS),
     ]);
   } catch (error) {
@@ -147,5 +348,21 @@ export default {
   clearEmailToken,
   setOnboardingStatus,
   getOnboardingStatus,
+  getPendingPayments,
+  storePendingPayment,
+  removePendingPayment,
+  clearPendingPayments,
+  storeMerchantSettings,
+  getMerchantSettings,
+  clearMerchantSettings,
+  storeMerchantPin,
+  getMerchantPin,
+  clearMerchantPin,
+  storeMerchantPinAttempts,
+  getMerchantPinAttempts,
+  clearMerchantPinAttempts,
+  storeStaffSession,
+  getStaffSession,
+  clearStaffSession,
   clearAllData,
 }; 
\ No newline at end of file
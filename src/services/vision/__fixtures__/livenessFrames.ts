@@ -0,0 +1,72 @@
+import type { DetectedFace, FaceDetector, PreviewFrame } from '../faceDetector';
+
+/**
+ * Recorded liveness frames: what the face detector reported for each preview snapshot of a session.
+ * Each entry is one frame, each frame lists every face found in it.
+ */
+
+export type RecordedFrames = DetectedFace[][];
+
+const bounds = { left: 120, top: 90, width: 240, height: 280 };
+
+const face = (eyesOpen: number, headYaw = 0, leftEye = eyesOpen): DetectedFace => ({
+  bounds,
+  leftEyeOpenProbability: leftEye,
+  rightEyeOpenProbability: eyesOpen,
+  headYaw,
+});
+
+// Customer blinks once on request
+export const BLINK_PASS: RecordedFrames = [
+  [face(0.96)],
+  [face(0.94, 1)],
+  [face(0.31, 1)], // Eyes closing, not yet closed
+  [face(0.04, 1)],
+  [face(0.06, 0)],
+  [face(0.92, 0)],
+];
+
+// Customer turns to their left; a mirrored front camera reports negative yaw
+export const TURN_PASS: RecordedFrames = [
+  [face(0.95, 2)],
+  [face(0.95, -6)],
+  [face(0.94, -15)],
+  [face(0.95, -27)],
+];
+
+// Printed photo held up to the camera: eyes stay open and the head barely moves
+export const STATIC_PHOTO: RecordedFrames = [
+  [face(0.93, 1.2)],
+  [face(0.94, 1.6)],
+  [face(0.93, 0.8)],
+  [face(0.92, 1.4)],
+];
+
+// A second person steps into view halfway through
+export const MULTIPLE_FACES: RecordedFrames = [
+  [face(0.95)],
+  [face(0.95), { ...face(0.9, 12), bounds: { left: 400, top: 60, width: 160, height: 190 } }],
+];
+
+// The camera saw nobody
+export const EMPTY_FRAMES: RecordedFrames = [[]];
+
+/**
+ * Plays a recording back through the same capture and detector interfaces the camera modal uses.
+ * The last frame repeats once the recording runs out, as a photo held still would.
+ */
+export const createFramePlayback = (frames: RecordedFrames) => {
+  let index = 0;
+
+  const captureFrame = jest.fn(async (): Promise<PreviewFrame> => {
+    const frame = { uri: `frame-${index}`, width: 480, height: 480 };
+    index = Math.min(index + 1, frames.length - 1);
+    return frame;
+  });
+
+  const detector: FaceDetector = {
+    detect: jest.fn(async (uri: string) => frames[Math.min(Number(uri.replace('frame-', '')), frames.length - 1)]),
+  };
+
+  return { captureFrame, detector };
+};
@@ -0,0 +1,126 @@
+import { LIVENESS_CONFIG } from '@/constants/vision';
+import {
+  BLINK_PASS,
+  EMPTY_FRAMES,
+  MULTIPLE_FACES,
+  RecordedFrames,
+  STATIC_PHOTO,
+  TURN_PASS,
+  createFramePlayback,
+} from '../__fixtures__/livenessFrames';
+import { LivenessChallenge, evaluateLiveness, runLivenessCheck } from '../liveness';
+
+const singleFaces = (frames: RecordedFrames) => frames.map(frame => frame[0]);
+
+// Runs the check on fake timers so the timeout does not take real seconds
+const runWithRecording = async (frames: RecordedFrames, challenge: LivenessChallenge) => {
+  const playback = createFramePlayback(frames);
+  const result = runLivenessCheck({ challenge, ...playback });
+  await jest.advanceTimersByTimeAsync(LIVENESS_CONFIG.TIMEOUT + LIVENESS_CONFIG.FRAME_INTERVAL);
+  return { result: await result, ...playback };
+};
+
+describe('evaluateLiveness', () => {
+  it('passes a recorded blink', () => {
+    const { passed, score } = evaluateLiveness(singleFaces(BLINK_PASS), 'blink');
+    expect(passed).toBe(true);
+    expect(score).toBeCloseTo(0.92 - 0.04, 5);
+  });
+
+  it('passes a recorded head turn in the mirrored direction', () => {
+    const { passed, score } = evaluateLiveness(singleFaces(TURN_PASS), 'turn');
+    expect(passed).toBe(true);
+    expect(score).toBeCloseTo(29 / (LIVENESS_CONFIG.HEAD_TURN_DEGREES * 2), 5);
+  });
+
+  it.each(['blink', 'turn'] as const)('scores a static photo at zero for the %s challenge', (challenge) => {
+    expect(evaluateLiveness(singleFaces(STATIC_PHOTO), challenge)).toEqual({ passed: false, score: 0 });
+  });
+
+  it('does not count a blink that never reopens', () => {
+    expect(evaluateLiveness(singleFaces(BLINK_PASS).slice(0, 5), 'blink').passed).toBe(false);
+  });
+
+  it('does not count closed eyes before the first open frame', () => {
+    const closedFirst = [...singleFaces(BLINK_PASS).slice(3, 5), singleFaces(BLINK_PASS)[5]];
+    expect(evaluateLiveness(closedFirst, 'blink').score).toBe(0);
+  });
+
+  it('does not count a wink, only both eyes closing', () => {
+    const wink = singleFaces(BLINK_PASS).map(face => ({ ...face, leftEyeOpenProbability: 0.95 }));
+    expect(evaluateLiveness(wink, 'blink').passed).toBe(false);
+  });
+
+  it('skips frames without eye probabilities', () => {
+    const faces = singleFaces(BLINK_PASS);
+    const withGaps = [faces[0], { ...faces[1], leftEyeOpenProbability: undefined }, ...faces.slice(2)];
+    expect(evaluateLiveness(withGaps, 'blink').passed).toBe(true);
+  });
+
+  it('requires the configured head turn angle', () => {
+    const faces = singleFaces(TURN_PASS);
+    expect(evaluateLiveness(faces, 'turn', { ...LIVENESS_CONFIG, HEAD_TURN_DEGREES: 30 }).passed).toBe(false);
+  });
+
+  it('needs at least two frames for a head turn', () => {
+    expect(evaluateLiveness(singleFaces(TURN_PASS).slice(-1), 'turn').score).toBe(0);
+  });
+});
+
+describe('runLivenessCheck on recorded frames', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('passes as soon as the recorded blink completes', async () => {
+    const { result, captureFrame } = await runWithRecording(BLINK_PASS, 'blink');
+    expect(result).toMatchObject({ passed: true, challenge: 'blink' });
+    expect(result.reason).toBeUndefined();
+    expect(captureFrame).toHaveBeenCalledTimes(BLINK_PASS.length);
+  });
+
+  it('passes a recorded head turn', async () => {
+    const { result } = await runWithRecording(TURN_PASS, 'turn');
+    expect(result).toMatchObject({ passed: true, challenge: 'turn' });
+  });
+
+  it.each(['blink', 'turn'] as const)('times out on a static photo for the %s challenge', async (challenge) => {
+    const { result, captureFrame } = await runWithRecording(STATIC_PHOTO, challenge);
+    expect(result).toEqual({ passed: false, score: 0, challenge, reason: 'timeout' });
+    // Frames keep coming for the whole time budget before giving up
+    expect(captureFrame.mock.calls.length).toBeGreaterThanOrEqual(LIVENESS_CONFIG.TIMEOUT / LIVENESS_CONFIG.FRAME_INTERVAL);
+  });
+
+  it('stops at the first frame with more than one face', async () => {
+    const { result, captureFrame } = await runWithRecording(MULTIPLE_FACES, 'blink');
+    expect(result).toMatchObject({ passed: false, reason: 'multiple_faces' });
+    expect(captureFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports no face when no frame had one', async () => {
+    const { result } = await runWithRecording(EMPTY_FRAMES, 'turn');
+    expect(result).toEqual({ passed: false, score: 0, challenge: 'turn', reason: 'no_face' });
+  });
+
+  it('treats a missing snapshot like a frame without a face', async () => {
+    const { detector } = createFramePlayback(BLINK_PASS);
+    const result = runLivenessCheck({ challenge: 'blink', captureFrame: async () => null, detector });
+    await jest.advanceTimersByTimeAsync(LIVENESS_CONFIG.TIMEOUT + LIVENESS_CONFIG.FRAME_INTERVAL);
+    expect(await result).toMatchObject({ passed: false, reason: 'no_face' });
+    expect(detector.detect).not.toHaveBeenCalled();
+  });
+
+  it('stops when the caller cancels', async () => {
+    let cancelled = false;
+    const playback = createFramePlayback(STATIC_PHOTO);
+    const result = runLivenessCheck({ challenge: 'blink', ...playback, isCancelled: () => cancelled });
+    await jest.advanceTimersByTimeAsync(LIVENESS_CONFIG.FRAME_INTERVAL * 2);
+    cancelled = true;
+    await jest.advanceTimersByTimeAsync(LIVENESS_CONFIG.FRAME_INTERVAL);
+    expect(await result).toMatchObject({ passed: false, reason: 'cancelled' });
+  });
+});
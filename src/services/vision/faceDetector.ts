@@ -0,0 +1,50 @@
+import FaceDetection from '@react-native-ml-kit/face-detection';
+
+/**
+ * Face Detector
+ * Minimal view of a detected face shared by the on-device vision checks.
+ * Checks depend on the FaceDetector interface only, so recorded frame fixtures can stand in for ML Kit.
+ */
+
+export interface FaceBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedFace {
+  bounds: FaceBounds; // Pixels of the analyzed image
+  leftEyeOpenProbability?: number;
+  rightEyeOpenProbability?: number;
+  headYaw: number; // Degrees, sign depends on the camera mirroring
+}
+
+// Low quality camera snapshot that is only analyzed on the device
+export interface PreviewFrame {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface FaceDetector {
+  detect: (imageUri: string) => Promise<DetectedFace[]>;
+}
+
+export const mlKitFaceDetector: FaceDetector = {
+  detect: async (imageUri) => {
+    const faces = await FaceDetection.detect(imageUri, {
+      performanceMode: 'fast',
+      classificationMode: 'all',
+    });
+
+    return faces.map(face => ({
+      bounds: face.frame,
+      leftEyeOpenProbability: face.leftEyeOpenProbability,
+      rightEyeOpenProbability: face.rightEyeOpenProbability,
+      headYaw: face.rotationY,
+    }));
+  },
+};
+
+export default mlKitFaceDetector;
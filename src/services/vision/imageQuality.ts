@@ -0,0 +1,35 @@
+import { File } from 'expo-file-system';
+import { decode } from 'jpeg-js';
+import { QUALITY_THRESHOLDS } from '@/constants/vision';
+import { QualityReport, QualityThresholds, assessQuality, measureQuality, toGrayscale } from '@/utils/imageQuality';
+import { FaceDetector } from './faceDetector';
+
+/**
+ * Image Quality Service
+ * Decodes a captured JPEG on the device and scores it before it is uploaded
+ */
+
+export const analyzeImageQuality = async (
+  imageUri: string,
+  detector: FaceDetector,
+  thresholds: QualityThresholds = QUALITY_THRESHOLDS
+): Promise<QualityReport> => {
+  const bytes = await new File(imageUri).bytes();
+  const jpeg = decode(bytes, { useTArray: true, formatAsRGBA: true });
+  const factor = thresholds.DOWNSAMPLE;
+  const image = toGrayscale(jpeg.data, jpeg.width, jpeg.height, factor);
+
+  // Detector bounds are in pixels of the full image
+  const faces = (await detector.detect(imageUri)).map(face => ({
+    left: face.bounds.left / factor,
+    top: face.bounds.top / factor,
+    width: face.bounds.width / factor,
+    height: face.bounds.height / factor,
+  }));
+
+  return assessQuality(measureQuality(image, faces), thresholds);
+};
+
+export default {
+  analyzeImageQuality,
+};
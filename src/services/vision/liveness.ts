@@ -0,0 +1,143 @@
+import { LIVENESS_CONFIG } from '@/constants/vision';
+import { DetectedFace, FaceDetector, PreviewFrame } from './faceDetector';
+
+/**
+ * Liveness Check
+ * Challenge-response check over several preview frames. A printed photo or a phone screen
+ * cannot blink or turn on request, so a still image alone no longer reaches verify-face.
+ */
+
+export type LivenessChallenge = 'blink' | 'turn';
+
+export type LivenessFailureReason = 'timeout' | 'no_face' | 'multiple_faces' | 'cancelled';
+
+export interface LivenessResult {
+  passed: boolean;
+  score: number; // 0..1, how clearly the challenge was performed
+  challenge: LivenessChallenge;
+  reason?: LivenessFailureReason;
+}
+
+export type LivenessConfig = typeof LIVENESS_CONFIG;
+
+export const LIVENESS_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: 'Ask the customer to blink slowly',
+  turn: 'Ask the customer to turn their head slightly',
+};
+
+export const LIVENESS_FAILURE_MESSAGES: Record<LivenessFailureReason, string> = {
+  timeout: 'Liveness check timed out. Please ask the customer to follow the prompt and try again.',
+  no_face: 'No face detected. Please make sure the customer is inside the circle.',
+  multiple_faces: 'More than one face is in view. Please make sure only the customer is in frame.',
+  cancelled: 'Liveness check cancelled.',
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const pickLivenessChallenge = (): LivenessChallenge =>
+  Math.random() < 0.5 ? 'blink' : 'turn';
+
+/**
+ * Open, closed, then open again. Frames without eye probabilities are skipped.
+ */
+const evaluateBlink = (faces: DetectedFace[], config: LivenessConfig): number => {
+  let openBefore = -1;
+  let closed = -1;
+  let best = 0;
+
+  faces.forEach(face => {
+    const { leftEyeOpenProbability: left, rightEyeOpenProbability: right } = face;
+    if (left === undefined || right === undefined) return;
+    const openness = (left + right) / 2;
+
+    if (Math.min(left, right) >= config.EYE_OPEN_THRESHOLD) {
+      if (closed >= 0) {
+        best = Math.max(best, Math.min(openBefore, openness) - closed);
+      } else {
+        openBefore = Math.max(openBefore, openness);
+      }
+    } else if (openBefore >= 0 && Math.max(left, right) <= config.EYE_CLOSED_THRESHOLD) {
+      closed = closed < 0 ? openness : Math.min(closed, openness);
+    }
+  });
+
+  return clamp(best);
+};
+
+/**
+ * Yaw change relative to the first frame, in either direction since front cameras may mirror
+ */
+const evaluateTurn = (faces: DetectedFace[], config: LivenessConfig): number => {
+  if (faces.length < 2) return 0;
+  const baseline = faces[0].headYaw;
+  const maxDelta = Math.max(...faces.map(face => Math.abs(face.headYaw - baseline)));
+  return maxDelta >= config.HEAD_TURN_DEGREES ? clamp(maxDelta / (config.HEAD_TURN_DEGREES * 2)) : 0;
+};
+
+/**
+ * Score the customer's face across consecutive frames, one face per frame
+ */
+export const evaluateLiveness = (
+  faces: DetectedFace[],
+  challenge: LivenessChallenge,
+  config: LivenessConfig = LIVENESS_CONFIG
+): { passed: boolean; score: number } => {
+  const score = challenge === 'blink' ? evaluateBlink(faces, config) : evaluateTurn(faces, config);
+  return { passed: score >= config.MIN_SCORE, score };
+};
+
+interface RunLivenessCheckOptions {
+  challenge: LivenessChallenge;
+  captureFrame: () => Promise<PreviewFrame | null>;
+  detector: FaceDetector;
+  isCancelled?: () => boolean;
+  config?: LivenessConfig;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Capture and analyze frames until the challenge passes, the time runs out or the caller cancels
+ */
+export const runLivenessCheck = async ({
+  challenge,
+  captureFrame,
+  detector,
+  isCancelled = () => false,
+  config = LIVENESS_CONFIG,
+}: RunLivenessCheckOptions): Promise<LivenessResult> => {
+  const startedAt = Date.now();
+  const faces: DetectedFace[] = [];
+  let bestScore = 0;
+
+  while (Date.now() - startedAt < config.TIMEOUT) {
+    if (isCancelled()) {
+      return { passed: false, score: bestScore, challenge, reason: 'cancelled' };
+    }
+
+    const frame = await captureFrame();
+    const detected = frame ? await detector.detect(frame.uri) : [];
+
+    if (detected.length > 1) {
+      return { passed: false, score: bestScore, challenge, reason: 'multiple_faces' };
+    }
+
+    if (detected.length === 1) {
+      faces.push(detected[0]);
+      const { passed, score } = evaluateLiveness(faces, challenge, config);
+      bestScore = Math.max(bestScore, score);
+      if (passed) {
+        return { passed, score, challenge };
+      }
+    }
+
+    await wait(config.FRAME_INTERVAL);
+  }
+
+  return {
+    passed: false,
+    score: bestScore,
+    challenge,
+    reason: faces.length > 0 ? 'timeout' : 'no_face',
+  };
+};
@@ -9,13 +9,35 @@ export interface User {
   payout_enabled: boolean;
 }
 
+// Employees sharing the merchant login on a counter device
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+}
+
+export interface LineItem {
+  name: string;
+  sku?: string;
+  quantity: number;
+  unit_amount: number;
+  total_amount: number;
+}
+
 export interface Transaction {
   id: string;
   amount: number;
+  currency?: string;
   status: string;
   customer_name?: string;
   created_at: string;
   description?: string;
+  line_items?: LineItem[];
+  refunded_amount?: number;
+  staff_id?: string; // Employee who rang up the sale, absent for sales made on the owner login
+  staff_name?: string;
 }
 
 export interface PaymentRequest {
@@ -23,9 +45,12 @@ export interface PaymentRequest {
   user_id: string;
   face_scan_id: string;
   amount: number;
+  subtotal_amount?: number;
+  tip_amount?: number;
   currency: string;
   description: string;
-  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'DECLINED';
+  line_items?: LineItem[];
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED';
   stripe_payment_intent_id?: string;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,89 @@
+import { decode, encode } from 'jpeg-js';
+import type { FaceBounds } from '@/services/vision/faceDetector';
+
+/**
+ * Synthetic sample captures for the vision tests: 640x640 frames like takeSquarePicture produces,
+ * encoded to JPEG and decoded again so compression behaves as it does on the device.
+ */
+
+export const SAMPLE_SIZE = 640;
+
+// A face-sized box in the middle of the frame, in full-resolution pixels
+export const CENTERED_FACE: FaceBounds = { left: 180, top: 160, width: 280, height: 320 };
+
+interface SampleOptions {
+  gain?: number; // Multiplies the luma, below 1 darkens
+  offset?: number; // Added to the luma, pushes toward white
+  blurRadius?: number; // Box blur applied before encoding, simulates motion or missed focus
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(255, value));
+
+const boxBlur = (luma: Float32Array, size: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(luma.length);
+  const result = new Float32Array(luma.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const sx = x + dx;
+        if (sx >= 0 && sx < size) {
+          sum += luma[y * size + sx];
+          count++;
+        }
+      }
+      horizontal[y * size + x] = sum / count;
+    }
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const sy = y + dy;
+        if (sy >= 0 && sy < size) {
+          sum += horizontal[sy * size + x];
+          count++;
+        }
+      }
+      result[y * size + x] = sum / count;
+    }
+  }
+  return result;
+};
+
+/**
+ * Textured mid-grey scene with finer detail inside the face box, returned as decoded RGBA
+ */
+export const createSampleCapture = ({ gain = 1, offset = 0, blurRadius = 0 }: SampleOptions = {}): Uint8Array => {
+  const size = SAMPLE_SIZE;
+  let luma: Float32Array = new Float32Array(size * size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inFace = x >= CENTERED_FACE.left && x < CENTERED_FACE.left + CENTERED_FACE.width
+        && y >= CENTERED_FACE.top && y < CENTERED_FACE.top + CENTERED_FACE.height;
+      const detail = inFace
+        ? 55 * Math.sin(x / 2.5) * Math.cos(y / 3.5) + ((x >> 3) + (y >> 3)) % 2 * 30
+        : 25 * Math.sin(x / 9) + 25 * Math.cos(y / 11);
+      luma[y * size + x] = 120 + detail;
+    }
+  }
+
+  if (blurRadius > 0) {
+    luma = boxBlur(luma, size, blurRadius);
+  }
+
+  const rgba = new Uint8Array(size * size * 4);
+  for (let i = 0; i < luma.length; i++) {
+    const value = clamp(luma[i] * gain + offset);
+    rgba[i * 4] = value;
+    rgba[i * 4 + 1] = value;
+    rgba[i * 4 + 2] = value;
+    rgba[i * 4 + 3] = 255;
+  }
+
+  const jpeg = encode({ data: rgba, width: size, height: size }, 85);
+  return decode(jpeg.data, { useTArray: true, formatAsRGBA: true }).data;
+};
@@ -0,0 +1,190 @@
+import {
+  ESCPOS,
+  PAPER_COLUMNS,
+  encodeQRCode,
+  encodeReceipt,
+  encodeTestPage,
+  encodeText,
+  padColumns,
+  toPrintableText,
+  wrapColumns,
+  wrapText,
+} from '../escpos';
+import type { Receipt } from '../receipt';
+
+const LF = 0x0a;
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+const textLine = (text: string): number[] => [...ascii(text), LF];
+
+// Position of a byte sequence inside the stream, -1 when absent
+const indexOf = (stream: Uint8Array, sequence: number[]): number => {
+  for (let start = 0; start <= stream.length - sequence.length; start++) {
+    if (sequence.every((byte, offset) => stream[start + offset] === byte)) return start;
+  }
+  return -1;
+};
+
+const receipt: Receipt = {
+  merchantName: 'Corner Cafe',
+  reference: 'req_123',
+  amount: 12.5,
+  tipAmount: 1.5,
+  currency: 'USD',
+  lines: [
+    { name: 'Flat white', quantity: 2, amount: 9 },
+    { name: 'Croissant', quantity: 1, amount: 2 },
+  ],
+  status: 'COMPLETED',
+  issuedAt: '2026-03-01T10:15:00.000Z',
+};
+
+describe('ESC/POS commands', () => {
+  it('uses the standard bytes for init, alignment, bold, size and cut', () => {
+    expect(ESCPOS.INIT).toEqual([0x1b, 0x40]);
+    expect(ESCPOS.ALIGN_LEFT).toEqual([0x1b, 0x61, 0x00]);
+    expect(ESCPOS.ALIGN_CENTER).toEqual([0x1b, 0x61, 0x01]);
+    expect(ESCPOS.BOLD_ON).toEqual([0x1b, 0x45, 0x01]);
+    expect(ESCPOS.BOLD_OFF).toEqual([0x1b, 0x45, 0x00]);
+    expect(ESCPOS.SIZE_NORMAL).toEqual([0x1d, 0x21, 0x00]);
+    expect(ESCPOS.SIZE_DOUBLE).toEqual([0x1d, 0x21, 0x11]);
+    expect(ESCPOS.FEED_AND_CUT).toEqual([0x1d, 0x56, 0x42, 0x03]);
+  });
+
+  it('maps paper widths to Font A columns', () => {
+    expect(PAPER_COLUMNS[58]).toBe(32);
+    expect(PAPER_COLUMNS[80]).toBe(48);
+  });
+});
+
+describe('text encoding', () => {
+  it('transliterates common symbols and strips accents', () => {
+    expect(toPrintableText('Café × 2 – €5')).toBe('Cafe x 2 - EUR 5');
+    expect(toPrintableText('  ')).toBe('  ');
+  });
+
+  it('prints characters without an ASCII stand-in as question marks', () => {
+    expect(encodeText('中')).toEqual([0x3f]);
+  });
+
+  it('encodes printable ASCII unchanged', () => {
+    expect(encodeText('Tip 10%')).toEqual([0x54, 0x69, 0x70, 0x20, 0x31, 0x30, 0x25]);
+  });
+});
+
+describe('column layout', () => {
+  it('right-aligns the amount to the paper edge', () => {
+    expect(padColumns('Tip', '$1.50', 32)).toBe(`Tip${' '.repeat(24)}$1.50`);
+    expect(padColumns('Tip', '$1.50', 48)).toBe(`Tip${' '.repeat(40)}$1.50`);
+  });
+
+  it('truncates the left text so one space always separates the amount', () => {
+    const padded = padColumns('A'.repeat(40), '$1.50', 32);
+    expect(padded).toHaveLength(32);
+    expect(padded).toBe(`${'A'.repeat(26)} $1.50`);
+  });
+
+  it('wraps at word boundaries', () => {
+    expect(wrapText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('splits words longer than a line', () => {
+    expect(wrapText('abcdefghij kl', 4)).toEqual(['abcd', 'efgh', 'ij', 'kl']);
+  });
+
+  it.each([
+    [58, 32],
+    [80, 48],
+  ] as const)('keeps every wrapped item line within %imm paper', (width, columns) => {
+    const name = 'Seasonal single origin pour over with oat milk and vanilla';
+    const lines = wrapColumns(name, '$12.50', PAPER_COLUMNS[width]);
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(text => expect(text.length).toBeLessThanOrEqual(columns));
+    expect(lines[0]).toHaveLength(columns);
+    expect(lines[0].endsWith(' $12.50')).toBe(true);
+    expect(lines.join(' ').replace(/\s+\$12\.50/, '').replace(/\s+/g, ' ')).toBe(name);
+  });
+});
+
+describe('encodeTestPage', () => {
+  it.each([32, 48])('produces the exact byte stream for %i columns', (columns) => {
+    expect(Array.from(encodeTestPage(columns))).toEqual([
+      ...ESCPOS.INIT,
+      ...ESCPOS.ALIGN_CENTER,
+      ...ESCPOS.BOLD_ON,
+      ...textLine('Printer connected'),
+      ...ESCPOS.BOLD_OFF,
+      ...textLine('-'.repeat(columns)),
+      ...textLine(`${columns} characters per line`),
+      ...ESCPOS.FEED_AND_CUT,
+    ]);
+  });
+});
+
+describe('encodeReceipt', () => {
+  it('starts with init, centered bold double-size merchant name', () => {
+    const header = [
+      ...ESCPOS.INIT,
+      ...ESCPOS.ALIGN_CENTER,
+      ...ESCPOS.BOLD_ON,
+      ...ESCPOS.SIZE_DOUBLE,
+      ...textLine('Corner Cafe'),
+      ...ESCPOS.SIZE_NORMAL,
+      ...ESCPOS.BOLD_OFF,
+    ];
+    expect(Array.from(encodeReceipt(receipt)).slice(0, header.length)).toEqual(header);
+  });
+
+  it('ends with the centered thank-you, a feed and a partial cut', () => {
+    const bytes = Array.from(encodeReceipt(receipt));
+    const tail = [...ESCPOS.ALIGN_CENTER, LF, ...textLine('Thank you!'), ...ESCPOS.FEED_AND_CUT];
+    expect(bytes.slice(-tail.length)).toEqual(tail);
+  });
+
+  it('prints left-aligned item lines and a bold total at 58mm', () => {
+    const bytes = encodeReceipt(receipt, { columns: 32 });
+    const itemsStart = indexOf(bytes, [...ESCPOS.ALIGN_LEFT, ...textLine('-'.repeat(32))]);
+
+    expect(itemsStart).toBeGreaterThan(0);
+    expect(indexOf(bytes, textLine(padColumns('2 x Flat white', '$9.00', 32)))).toBeGreaterThan(itemsStart);
+    expect(indexOf(bytes, textLine(padColumns('Tip', '$1.50', 32)))).toBeGreaterThan(itemsStart);
+    expect(indexOf(bytes, [
+      ...ESCPOS.BOLD_ON,
+      ...textLine(padColumns('TOTAL', '$12.50', 32)),
+      ...ESCPOS.BOLD_OFF,
+    ])).toBeGreaterThan(itemsStart);
+  });
+
+  it('uses the full 48 columns at 80mm', () => {
+    const bytes = encodeReceipt(receipt, { columns: 48 });
+    expect(indexOf(bytes, textLine('-'.repeat(48)))).toBeGreaterThan(0);
+    expect(indexOf(bytes, textLine('-'.repeat(49)))).toBe(-1);
+    expect(indexOf(bytes, textLine(padColumns('TOTAL', '$12.50', 48)))).toBeGreaterThan(0);
+  });
+
+  it.each([32, 48])('wraps a long description at %i columns', (columns) => {
+    const description = 'Catering order for the Thursday team breakfast, delivered to the second floor';
+    const bytes = encodeReceipt({ ...receipt, lines: [], tipAmount: 0, description }, { columns });
+    const lines = wrapText(description, columns);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(indexOf(bytes, lines.flatMap(textLine))).toBeGreaterThan(0);
+  });
+
+  it('adds a QR code for the hosted receipt only when a URL is given', () => {
+    const url = 'https://r.example.com/req_123';
+    expect(indexOf(encodeReceipt(receipt, { receiptUrl: url }), encodeQRCode(url))).toBeGreaterThan(0);
+    expect(indexOf(encodeReceipt(receipt), [0x1d, 0x28, 0x6b])).toBe(-1);
+  });
+});
+
+describe('encodeQRCode', () => {
+  it('stores the data length plus three in little-endian order', () => {
+    const data = 'x'.repeat(300);
+    const bytes = encodeQRCode(data);
+    const store = indexOf(Uint8Array.from(bytes), [0x1d, 0x28, 0x6b, 303 % 256, 1, 0x31, 0x50, 0x30]);
+    expect(store).toBeGreaterThan(0);
+    expect(bytes.slice(-8)).toEqual([0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30]);
+  });
+});
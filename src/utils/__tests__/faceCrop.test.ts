@@ -0,0 +1,74 @@
+import { FACE_CROP_CONFIG } from '@/constants/vision';
+import { getFaceCropRect, pickPrimaryFace } from '../faceCrop';
+
+describe('pickPrimaryFace', () => {
+  it('returns null when no face was detected', () => {
+    expect(pickPrimaryFace([])).toBeNull();
+  });
+
+  it('chooses the face with the largest area', () => {
+    const bystander = { left: 0, top: 0, width: 300, height: 100 };
+    const customer = { left: 400, top: 300, width: 200, height: 240 };
+    const background = { left: 900, top: 50, width: 80, height: 90 };
+    expect(pickPrimaryFace([bystander, customer, background])).toBe(customer);
+  });
+
+  it('keeps the first face when two are the same size', () => {
+    const first = { left: 0, top: 0, width: 100, height: 100 };
+    const second = { left: 500, top: 0, width: 100, height: 100 };
+    expect(pickPrimaryFace([first, second])).toBe(first);
+  });
+});
+
+describe('getFaceCropRect', () => {
+  it('falls back to the centered square without a face', () => {
+    expect(getFaceCropRect(null, 1920, 1080)).toEqual({ originX: 420, originY: 0, width: 1080, height: 1080 });
+    expect(getFaceCropRect(null, 1080, 1920)).toEqual({ originX: 0, originY: 420, width: 1080, height: 1080 });
+  });
+
+  it('treats an empty face box like no face', () => {
+    expect(getFaceCropRect({ left: 500, top: 500, width: 0, height: 120 }, 1920, 1080))
+      .toEqual(getFaceCropRect(null, 1920, 1080));
+  });
+
+  it('pads the longer face side and centers the square on the face', () => {
+    const face = { left: 800, top: 400, width: 200, height: 240 };
+    // 240 * (1 + 2 * 0.5) = 480, centered on (900, 520)
+    expect(getFaceCropRect(face, 1920, 1080, 0.5)).toEqual({ originX: 660, originY: 280, width: 480, height: 480 });
+  });
+
+  it('uses the configured padding by default', () => {
+    const face = { left: 800, top: 400, width: 200, height: 200 };
+    const side = Math.round(200 * (1 + 2 * FACE_CROP_CONFIG.PADDING));
+    expect(getFaceCropRect(face, 1920, 1080).width).toBe(side);
+  });
+
+  it('shifts the square inside the image at the top-left edge', () => {
+    const face = { left: 10, top: 20, width: 200, height: 200 };
+    expect(getFaceCropRect(face, 1920, 1080, 0.5)).toEqual({ originX: 0, originY: 0, width: 400, height: 400 });
+  });
+
+  it('shifts the square inside the image at the bottom-right edge', () => {
+    const face = { left: 1800, top: 1000, width: 100, height: 70 };
+    const rect = getFaceCropRect(face, 1920, 1080, 0.5);
+    expect(rect).toEqual({ originX: 1720, originY: 880, width: 200, height: 200 });
+    expect(rect.originX + rect.width).toBe(1920);
+    expect(rect.originY + rect.height).toBe(1080);
+  });
+
+  it('caps the side at the shorter image edge', () => {
+    const face = { left: 600, top: 100, width: 700, height: 800 };
+    const rect = getFaceCropRect(face, 1920, 1080, 0.5);
+    expect(rect.width).toBe(1080);
+    expect(rect.height).toBe(1080);
+    expect(rect.originY).toBe(0);
+    expect(rect.originX).toBe(410);
+  });
+
+  it('returns whole pixels for fractional detector boxes and image sizes', () => {
+    const rect = getFaceCropRect({ left: 100.4, top: 200.6, width: 150.3, height: 170.7 }, 1279.5, 959.5, 0.25);
+    Object.values(rect).forEach(value => expect(Number.isInteger(value)).toBe(true));
+    expect(rect.originX + rect.width).toBeLessThanOrEqual(1279);
+    expect(rect.originY + rect.height).toBeLessThanOrEqual(959);
+  });
+});
@@ -0,0 +1,303 @@
+import { ERROR_MESSAGES, PIN_CONFIG } from '@/constants/api';
+import type { FaceMatch, FaceVerificationResponse, PaymentRequest, PinVerificationResponse } from '@/services/api/apiService';
+import {
+  PinEntry,
+  VerificationEvent,
+  VerificationState,
+  getPinLength,
+  initialVerificationState,
+  isAwaitingPin,
+  isVerificationBusy,
+  parseFaceVerificationResponse,
+  parsePinVerificationResponse,
+  verificationReducer,
+} from '../faceVerificationMachine';
+
+const pinRequiredResponse = (pinLength?: unknown): FaceVerificationResponse => ({
+  success: true,
+  match_found: true,
+  requires_pin: true,
+  face_scan_id: 'scan_1',
+  pin_length: pinLength as number | undefined,
+});
+
+describe('getPinLength', () => {
+  it.each([4, 5, 6])('accepts a %i-digit PIN', (length) => {
+    expect(getPinLength(length)).toBe(length);
+  });
+
+  it.each([
+    ['shorter than supported', 3],
+    ['longer than supported', 7],
+    ['zero', 0],
+    ['negative', -4],
+    ['fractional', 4.5],
+    ['not a number', '6'],
+    ['missing', undefined],
+    ['null', null],
+    ['NaN', NaN],
+  ])('falls back to four digits when the length is %s', (_, value) => {
+    expect(getPinLength(value)).toBe(PIN_CONFIG.DEFAULT_LENGTH);
+    expect(PIN_CONFIG.DEFAULT_LENGTH).toBe(4);
+  });
+
+  it.each([4, 5, 6])('carries a %i-digit length from verify-face into the PIN prompt', (length) => {
+    expect(parseFaceVerificationResponse(pinRequiredResponse(length))).toMatchObject({
+      kind: 'PinRequired',
+      pinLength: length,
+    });
+  });
+
+  it('prompts for four digits when verify-face sends an unsupported length', () => {
+    expect(parseFaceVerificationResponse(pinRequiredResponse(8))).toMatchObject({ kind: 'PinRequired', pinLength: 4 });
+  });
+});
+
+const request = (status: PaymentRequest['status'] = 'PENDING'): PaymentRequest => ({
+  request_id: 'req_1',
+  user_id: 'user_1',
+  face_scan_id: 'scan_1',
+  amount: 1250,
+  currency: 'USD',
+  description: 'Coffee',
+  status,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  expires_at: '2026-01-01T00:05:00Z',
+});
+
+const match: FaceMatch = { user_id: 'user_1', name: 'Jane Doe', similarity: 0.97 };
+const lookAlikes: FaceMatch[] = [
+  { user_id: 'user_1', name: 'Jane Doe', similarity: 0.91, phone_last_two: '12' },
+  { user_id: 'user_2', name: 'Jim Dale', similarity: 0.9, phone_last_two: '34' },
+];
+
+const face = (fields: Partial<FaceVerificationResponse>): FaceVerificationResponse => ({
+  success: true,
+  match_found: true,
+  requires_pin: false,
+  face_scan_id: 'scan_1',
+  ...fields,
+});
+
+const pinResponse = (fields: Partial<PinVerificationResponse>): PinVerificationResponse => ({
+  success: true,
+  message: '',
+  ...fields,
+});
+
+const unrecognized = { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+
+describe('parseFaceVerificationResponse', () => {
+  it.each<[string, FaceVerificationResponse | null | undefined, object]>([
+    ['a missing body', undefined, unrecognized],
+    ['a null body', null, unrecognized],
+    ['no face in the image', face({ face_detected: false, success: false, match_found: false }), { kind: 'NoFace', message: ERROR_MESSAGES.NO_FACE_DETECTED }],
+    [
+      'a PIN step-up',
+      face({ requires_pin: true, pin_length: 6 }),
+      { kind: 'PinRequired', faceScanId: 'scan_1', pinLength: 6, message: ERROR_MESSAGES.PIN_REQUIRED, candidates: [] },
+    ],
+    ['a PIN step-up with a reason', face({ requires_pin: true, message: 'Large amount' }), { kind: 'PinRequired', message: 'Large amount' }],
+    ['a PIN step-up without a face scan', face({ requires_pin: true, face_scan_id: undefined }), unrecognized],
+    [
+      'ambiguous look-alikes',
+      face({ requires_pin: true, is_ambiguous: true, matches: lookAlikes }),
+      {
+        kind: 'PinRequired',
+        message: ERROR_MESSAGES.MULTIPLE_FACES_DETECTED,
+        candidates: [
+          { userId: 'user_1', initials: 'JD', phoneLastTwo: '12' },
+          { userId: 'user_2', initials: 'JD', phoneLastTwo: '34' },
+        ],
+      },
+    ],
+    ['matches that are not flagged ambiguous', face({ requires_pin: true, matches: lookAlikes }), { kind: 'PinRequired', candidates: [] }],
+    [
+      'an automatic payment',
+      face({ auto_payment: true, matches: [match], request: request('COMPLETED') }),
+      { kind: 'AutoPaid', faceScanId: 'scan_1', userId: 'user_1', userName: 'Jane Doe', requestId: 'req_1', duplicate: false },
+    ],
+    [
+      'a duplicate of a paid request',
+      face({ success: false, is_duplicate: true, request: request('COMPLETED') }),
+      { kind: 'AutoPaid', requestId: 'req_1', duplicate: true },
+    ],
+    [
+      'a payment request sent to the customer',
+      face({ matches: [match], request: request() }),
+      { kind: 'RequestSent', requestId: 'req_1', expiresAt: '2026-01-01T00:05:00Z', userId: 'user_1', duplicate: false },
+    ],
+    ['a bare request ID', face({ request_id: 'req_9' }), { kind: 'RequestSent', requestId: 'req_9' }],
+    ['a duplicate of a pending request', face({ is_duplicate: true, request: request() }), { kind: 'RequestSent', duplicate: true }],
+    ['a request even when auto payment was not confirmed', face({ success: false, auto_payment: false, request_id: 'req_2' }), { kind: 'RequestSent', requestId: 'req_2' }],
+    ['no match with a message', face({ success: false, match_found: false, message: 'Not enrolled' }), { kind: 'NoMatch', message: 'Not enrolled' }],
+    ['no match without a message', face({ success: false, match_found: false }), { kind: 'NoMatch', message: ERROR_MESSAGES.NO_MATCH_FOUND }],
+    ['success with nothing to act on', face({ message: 'payment request created' }), unrecognized],
+    ['auto payment reported without success', face({ success: false, auto_payment: true }), unrecognized],
+  ])('maps %s', (_, data, expected) => {
+    expect(parseFaceVerificationResponse(data)).toMatchObject(expected);
+  });
+
+  it('never branches on the message wording', () => {
+    const wording = ['Multiple faces detected', 'Payment request created', 'PIN required'];
+    wording.forEach(message => expect(parseFaceVerificationResponse(face({ message }))).toEqual(unrecognized));
+  });
+});
+
+describe('parsePinVerificationResponse', () => {
+  it.each<[string, PinVerificationResponse | null | undefined, object]>([
+    ['a missing body', undefined, unrecognized],
+    ['a wrong PIN', pinResponse({ success: false, attempts_remaining: 2 }), { kind: 'PinRejected', message: ERROR_MESSAGES.INVALID_PIN, attemptsRemaining: 2 }],
+    ['a wrong PIN with unknown attempts', pinResponse({ success: false }), { kind: 'PinRejected', attemptsRemaining: undefined }],
+    [
+      'a lockout',
+      pinResponse({ success: false, attempts_remaining: 0, locked_until: '2026-01-01T00:10:00Z' }),
+      { kind: 'PinRejected', message: ERROR_MESSAGES.PIN_LOCKED, lockedUntil: '2026-01-01T00:10:00Z' },
+    ],
+    ['the last wrong PIN', pinResponse({ success: false, attempts_remaining: 0 }), { kind: 'PinAttemptsExhausted', message: ERROR_MESSAGES.PIN_ATTEMPTS_EXHAUSTED }],
+    [
+      'an automatic payment',
+      pinResponse({ auto_payment: true, verified_user_id: 'user_7', request: request('COMPLETED') }),
+      { kind: 'AutoPaid', faceScanId: 'scan_1', userId: 'user_7', requestId: 'req_1', duplicate: false },
+    ],
+    ['a duplicate of a paid request', pinResponse({ is_duplicate: true, request: request('COMPLETED') }), { kind: 'AutoPaid', duplicate: true }],
+    [
+      'a payment request',
+      pinResponse({ matches: [match], verified_user_id: 'user_7', request: request() }),
+      { kind: 'RequestSent', faceScanId: 'scan_1', requestId: 'req_1', userId: 'user_1', userName: 'Jane Doe' },
+    ],
+    ['success with nothing to act on', pinResponse({}), unrecognized],
+  ])('maps %s', (_, data, expected) => {
+    expect(parsePinVerificationResponse(data, 'scan_1')).toMatchObject(expected);
+  });
+});
+
+describe('verificationReducer', () => {
+  const pinEntry: PinEntry = { faceScanId: 'scan_1', pinLength: 5, prompt: 'Enter PIN', candidateUserId: undefined, attemptsRemaining: undefined };
+  const candidates = [{ userId: 'user_1', initials: 'JD' }, { userId: 'user_2', initials: 'JM' }];
+
+  const states: Record<string, VerificationState> = {
+    idle: { status: 'idle' },
+    verifying: { status: 'verifying' },
+    awaitingPin: { status: 'awaitingPin', ...pinEntry, candidates: [] },
+    pickingCandidate: { status: 'awaitingPin', ...pinEntry, candidates },
+    verifyingPin: { status: 'verifyingPin', ...pinEntry },
+    succeeded: { status: 'succeeded', outcome: { kind: 'RequestSent', faceScanId: 'scan_1', requestId: 'req_1' } },
+    failed: { status: 'failed', outcome: { kind: 'NoMatch', message: 'Not found' } },
+  };
+
+  const autoPaid = { kind: 'AutoPaid', faceScanId: 'scan_1', requestId: 'req_1' } as const;
+  const requestSent = { kind: 'RequestSent', faceScanId: 'scan_1', requestId: 'req_1' } as const;
+  const noMatch = { kind: 'NoMatch', message: 'Not found' } as const;
+  const noFace = { kind: 'NoFace', message: 'No face' } as const;
+  const serviceError = { kind: 'ServiceError', message: 'Down' } as const;
+  const exhausted = { kind: 'PinAttemptsExhausted', message: 'Cancelled' } as const;
+
+  it('starts idle', () => {
+    expect(initialVerificationState).toEqual({ status: 'idle' });
+  });
+
+  it.each<[string, VerificationEvent, VerificationState]>([
+    ['idle', { type: 'CAPTURE_STARTED' }, { status: 'verifying' }],
+    ['failed', { type: 'CAPTURE_STARTED' }, { status: 'verifying' }],
+    ['verifying', { type: 'CAPTURE_FAILED', message: 'Camera error' }, { status: 'failed', outcome: { kind: 'ServiceError', message: 'Camera error' } }],
+    ['verifying', { type: 'REQUEST_FAILED', message: 'Timed out' }, { status: 'failed', outcome: { kind: 'ServiceError', message: 'Timed out' } }],
+    [
+      'verifying',
+      { type: 'FACE_OUTCOME', outcome: { kind: 'PinRequired', faceScanId: 'scan_1', pinLength: 5, message: 'Enter PIN', candidates } },
+      { status: 'awaitingPin', faceScanId: 'scan_1', pinLength: 5, prompt: 'Enter PIN', candidates },
+    ],
+    ['verifying', { type: 'FACE_OUTCOME', outcome: autoPaid }, { status: 'succeeded', outcome: autoPaid }],
+    ['verifying', { type: 'FACE_OUTCOME', outcome: requestSent }, { status: 'succeeded', outcome: requestSent }],
+    ['verifying', { type: 'FACE_OUTCOME', outcome: noMatch }, { status: 'failed', outcome: noMatch }],
+    ['verifying', { type: 'FACE_OUTCOME', outcome: noFace }, { status: 'failed', outcome: noFace }],
+    ['verifying', { type: 'FACE_OUTCOME', outcome: serviceError }, { status: 'failed', outcome: serviceError }],
+    ['pickingCandidate', { type: 'CANDIDATE_SELECTED', userId: 'user_2' }, { status: 'awaitingPin', ...pinEntry, candidates: [], candidateUserId: 'user_2' }],
+    ['pickingCandidate', { type: 'CANDIDATE_SELECTED' }, { status: 'awaitingPin', ...pinEntry, candidates: [], candidateUserId: undefined }],
+    ['awaitingPin', { type: 'PIN_SUBMITTED' }, { status: 'verifyingPin', ...pinEntry }],
+    ['pickingCandidate', { type: 'PIN_SUBMITTED' }, { status: 'verifyingPin', ...pinEntry }],
+    ['verifyingPin', { type: 'PIN_OUTCOME', outcome: autoPaid }, { status: 'succeeded', outcome: autoPaid }],
+    ['verifyingPin', { type: 'PIN_OUTCOME', outcome: requestSent }, { status: 'succeeded', outcome: requestSent }],
+    [
+      'verifyingPin',
+      { type: 'PIN_OUTCOME', outcome: { kind: 'PinRejected', message: 'Wrong', attemptsRemaining: 1, lockedUntil: '2026-01-01T00:10:00Z' } },
+      { status: 'awaitingPin', ...pinEntry, candidates: [], pinError: 'Wrong', attemptsRemaining: 1, lockedUntil: '2026-01-01T00:10:00Z' },
+    ],
+    ['verifyingPin', { type: 'PIN_OUTCOME', outcome: exhausted }, { status: 'failed', outcome: exhausted }],
+    ['verifyingPin', { type: 'PIN_OUTCOME', outcome: serviceError }, { status: 'awaitingPin', ...pinEntry, candidates: [], pinError: 'Down' }],
+    ...Object.keys(states).flatMap(name => [
+      [name, { type: 'CANCEL' }, { status: 'idle' }] as [string, VerificationEvent, VerificationState],
+      [name, { type: 'RESET' }, { status: 'idle' }] as [string, VerificationEvent, VerificationState],
+    ]),
+  ])('moves from %s on %j', (from, event, expected) => {
+    expect(verificationReducer(states[from], event)).toEqual(expected);
+  });
+
+  it('keeps the attempt count known before a PIN service error', () => {
+    const state: VerificationState = { status: 'verifyingPin', ...pinEntry, attemptsRemaining: 2, candidateUserId: 'user_2' };
+    expect(verificationReducer(state, { type: 'PIN_OUTCOME', outcome: serviceError })).toMatchObject({
+      status: 'awaitingPin',
+      attemptsRemaining: 2,
+      candidateUserId: 'user_2',
+    });
+  });
+
+  const events: VerificationEvent[] = [
+    { type: 'CAPTURE_STARTED' },
+    { type: 'CAPTURE_FAILED', message: 'x' },
+    { type: 'FACE_OUTCOME', outcome: requestSent },
+    { type: 'REQUEST_FAILED', message: 'x' },
+    { type: 'CANDIDATE_SELECTED', userId: 'user_1' },
+    { type: 'PIN_SUBMITTED' },
+    { type: 'PIN_OUTCOME', outcome: requestSent },
+  ];
+
+  // Every event other than CANCEL and RESET that is not listed above must leave the state untouched
+  const allowed: Record<string, VerificationEvent['type'][]> = {
+    idle: ['CAPTURE_STARTED'],
+    verifying: ['CAPTURE_FAILED', 'FACE_OUTCOME', 'REQUEST_FAILED'],
+    awaitingPin: ['PIN_SUBMITTED'],
+    pickingCandidate: ['CANDIDATE_SELECTED', 'PIN_SUBMITTED'],
+    verifyingPin: ['PIN_OUTCOME'],
+    succeeded: [],
+    failed: ['CAPTURE_STARTED'],
+  };
+
+  it.each(
+    Object.keys(states).flatMap(name =>
+      events.filter(event => !allowed[name].includes(event.type)).map(event => [name, event.type, event] as const)
+    )
+  )('ignores %s on %s', (name, _, event) => {
+    expect(verificationReducer(states[name], event)).toBe(states[name]);
+  });
+
+  describe('assertNever', () => {
+    it('throws on an unknown event', () => {
+      const unknown = { type: 'SOMETHING_NEW' } as unknown as VerificationEvent;
+      expect(() => verificationReducer(states.idle, unknown)).toThrow('Unhandled verification value: {"type":"SOMETHING_NEW"}');
+    });
+
+    it('throws on an unknown face outcome', () => {
+      const event = { type: 'FACE_OUTCOME', outcome: { kind: 'Maybe' } } as unknown as VerificationEvent;
+      expect(() => verificationReducer(states.verifying, event)).toThrow('Unhandled verification value');
+    });
+
+    it('throws on an unknown PIN outcome', () => {
+      const event = { type: 'PIN_OUTCOME', outcome: { kind: 'NoFace', message: 'x' } } as unknown as VerificationEvent;
+      expect(() => verificationReducer(states.verifyingPin, event)).toThrow('Unhandled verification value');
+    });
+  });
+
+  it.each([
+    ['idle', false, false],
+    ['verifying', true, false],
+    ['awaitingPin', false, true],
+    ['verifyingPin', true, true],
+    ['succeeded', false, false],
+    ['failed', false, false],
+  ])('reports %s as busy=%s and awaiting PIN=%s', (name, busy, awaitingPin) => {
+    expect(isVerificationBusy(states[name])).toBe(busy);
+    expect(isAwaitingPin(states[name])).toBe(awaitingPin);
+  });
+});
@@ -0,0 +1,186 @@
+import { QUALITY_THRESHOLDS } from '@/constants/vision';
+import type { FaceBounds } from '@/services/vision/faceDetector';
+import {
+  GrayImage,
+  QualityMetrics,
+  assessQuality,
+  cropGray,
+  measureBrightness,
+  measureContrast,
+  measureQuality,
+  measureSharpness,
+  toGrayscale,
+} from '../imageQuality';
+import { CENTERED_FACE, SAMPLE_SIZE, createSampleCapture } from '../__fixtures__/sampleImages';
+
+const factor = QUALITY_THRESHOLDS.DOWNSAMPLE;
+
+// Same steps as analyzeImageQuality, minus reading the file and running the detector
+const scoreSample = (rgba: Uint8Array, faces: FaceBounds[] = [CENTERED_FACE]) => {
+  const image = toGrayscale(rgba, SAMPLE_SIZE, SAMPLE_SIZE, factor);
+  const scaledFaces = faces.map(face => ({
+    left: face.left / factor,
+    top: face.top / factor,
+    width: face.width / factor,
+    height: face.height / factor,
+  }));
+  return assessQuality(measureQuality(image, scaledFaces));
+};
+
+const grayImage = (width: number, height: number, pixel: (x: number, y: number) => number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = pixel(x, y);
+  }
+  return { width, height, data };
+};
+
+// Metrics that pass every default threshold
+const goodMetrics: QualityMetrics = {
+  brightness: 130,
+  contrast: 40,
+  sharpness: 500,
+  faceCount: 1,
+  centerOffset: 0.05,
+  faceSize: 0.5,
+};
+
+describe('pixel measurements', () => {
+  it('converts RGBA to luma with the BT.601 weights', () => {
+    const rgba = Uint8Array.from([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255]);
+    const gray = toGrayscale(rgba, 4, 1);
+    expect(Array.from(gray.data)).toEqual([
+      expect.closeTo(76.245, 3),
+      expect.closeTo(149.685, 3),
+      expect.closeTo(29.07, 3),
+      expect.closeTo(255, 3),
+    ]);
+  });
+
+  it('averages blocks when downsampling', () => {
+    const rgba = new Uint8Array(4 * 4 * 4).map((_, i) => (Math.floor(i / 4) % 2 ? 200 : 100));
+    const gray = toGrayscale(rgba, 4, 4, 2);
+    expect(gray.width).toBe(2);
+    expect(gray.height).toBe(2);
+    gray.data.forEach(value => expect(value).toBeCloseTo(150, 3));
+  });
+
+  it('measures brightness and contrast as mean and standard deviation', () => {
+    const image = grayImage(2, 1, x => (x ? 200 : 100));
+    expect(measureBrightness(image)).toBe(150);
+    expect(measureContrast(image)).toBe(50);
+  });
+
+  it('scores a flat image as having no sharpness', () => {
+    expect(measureSharpness(grayImage(10, 10, () => 128))).toBe(0);
+  });
+
+  it('scores a one-pixel checkerboard at the Laplacian maximum', () => {
+    // Every interior pixel differs from its four neighbours by 255, so the Laplacian is ±1020
+    const checkerboard = grayImage(10, 10, (x, y) => ((x + y) % 2 ? 255 : 0));
+    expect(measureSharpness(checkerboard)).toBeCloseTo(1020 ** 2, 0);
+  });
+
+  it('returns zero sharpness for images too small for the kernel', () => {
+    expect(measureSharpness(grayImage(2, 2, (x) => x * 255))).toBe(0);
+  });
+
+  it('clamps crops to the image', () => {
+    const image = grayImage(4, 4, (x, y) => y * 4 + x);
+    const crop = cropGray(image, { left: 2, top: -1, width: 5, height: 2 });
+    expect(crop.width).toBe(2);
+    expect(crop.height).toBe(1);
+    expect(Array.from(crop.data)).toEqual([2, 3]);
+  });
+
+  it('measures light over the face, not a bright background', () => {
+    const image = grayImage(20, 20, (x, y) => (x >= 5 && x < 15 && y >= 5 && y < 15 ? 30 : 250));
+    const metrics = measureQuality(image, [{ left: 5, top: 5, width: 10, height: 10 }]);
+    expect(metrics.brightness).toBe(30);
+    expect(metrics.centerOffset).toBe(0);
+    expect(metrics.faceSize).toBe(0.5);
+  });
+});
+
+describe('sample captures', () => {
+  it('passes an evenly lit, sharp, centered face', () => {
+    const report = scoreSample(createSampleCapture());
+    expect(report.issues).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.metrics.sharpness).toBeGreaterThan(QUALITY_THRESHOLDS.MIN_SHARPNESS * 10);
+  });
+
+  it('rejects a blurry capture', () => {
+    const report = scoreSample(createSampleCapture({ blurRadius: 8 }));
+    expect(report.passed).toBe(false);
+    expect(report.issues).toContain('blurry');
+    expect(report.metrics.sharpness).toBeLessThan(QUALITY_THRESHOLDS.MIN_SHARPNESS);
+  });
+
+  it('rejects a dark capture', () => {
+    const report = scoreSample(createSampleCapture({ gain: 0.3 }));
+    expect(report.issues).toContain('too_dark');
+    expect(report.issues).not.toContain('too_bright');
+    expect(report.metrics.brightness).toBeLessThan(QUALITY_THRESHOLDS.MIN_BRIGHTNESS);
+  });
+
+  it('rejects an overexposed capture', () => {
+    const report = scoreSample(createSampleCapture({ offset: 150 }));
+    expect(report.issues).toContain('too_bright');
+    expect(report.issues).not.toContain('too_dark');
+    expect(report.metrics.brightness).toBeGreaterThan(QUALITY_THRESHOLDS.MAX_BRIGHTNESS);
+  });
+
+  it('rejects a washed-out capture for low contrast', () => {
+    const report = scoreSample(createSampleCapture({ gain: 0.2, offset: 150 }));
+    expect(report.issues).toContain('low_contrast');
+  });
+
+  it('rejects a capture without a face', () => {
+    const report = scoreSample(createSampleCapture(), []);
+    expect(report.issues).toEqual(['no_face']);
+    expect(report.metrics.centerOffset).toBeUndefined();
+  });
+
+  it('rejects a capture with several faces', () => {
+    const report = scoreSample(createSampleCapture(), [CENTERED_FACE, { left: 0, top: 0, width: 120, height: 140 }]);
+    expect(report.issues).toEqual(['multiple_faces']);
+  });
+});
+
+describe('assessQuality thresholds', () => {
+  it('accepts metrics exactly at each limit', () => {
+    const report = assessQuality({
+      ...goodMetrics,
+      brightness: QUALITY_THRESHOLDS.MIN_BRIGHTNESS,
+      contrast: QUALITY_THRESHOLDS.MIN_CONTRAST,
+      sharpness: QUALITY_THRESHOLDS.MIN_SHARPNESS,
+      centerOffset: QUALITY_THRESHOLDS.MAX_CENTER_OFFSET,
+      faceSize: QUALITY_THRESHOLDS.MIN_FACE_SIZE,
+    });
+    expect(report.passed).toBe(true);
+    expect(assessQuality({ ...goodMetrics, brightness: QUALITY_THRESHOLDS.MAX_BRIGHTNESS, faceSize: QUALITY_THRESHOLDS.MAX_FACE_SIZE }).passed).toBe(true);
+  });
+
+  it.each([
+    ['too_dark', { brightness: QUALITY_THRESHOLDS.MIN_BRIGHTNESS - 1 }],
+    ['too_bright', { brightness: QUALITY_THRESHOLDS.MAX_BRIGHTNESS + 1 }],
+    ['low_contrast', { contrast: QUALITY_THRESHOLDS.MIN_CONTRAST - 1 }],
+    ['blurry', { sharpness: QUALITY_THRESHOLDS.MIN_SHARPNESS - 1 }],
+    ['off_center', { centerOffset: QUALITY_THRESHOLDS.MAX_CENTER_OFFSET + 0.01 }],
+    ['too_far', { faceSize: QUALITY_THRESHOLDS.MIN_FACE_SIZE - 0.01 }],
+    ['too_close', { faceSize: QUALITY_THRESHOLDS.MAX_FACE_SIZE + 0.01 }],
+  ] as const)('reports %s just past its threshold', (issue, change) => {
+    expect(assessQuality({ ...goodMetrics, ...change }).issues).toEqual([issue]);
+  });
+
+  it('lists face problems before lighting problems', () => {
+    expect(assessQuality({ ...goodMetrics, faceCount: 0, brightness: 10, sharpness: 0 }).issues)
+      .toEqual(['no_face', 'too_dark', 'blurry']);
+  });
+
+  it('uses thresholds passed by the caller', () => {
+    const strict = { ...QUALITY_THRESHOLDS, MIN_SHARPNESS: 1000 };
+    expect(assessQuality(goodMetrics, strict).issues).toEqual(['blurry']);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Cart Utilities
+ * Pure helpers for building an itemized sale, amounts in minor currency units
+ */
+
+import type { LineItem } from '@/types';
+import type { Product } from '@/services/catalog/catalogService';
+
+export interface CartLine {
+  product: Product;
+  quantity: number;
+}
+
+/**
+ * Add one unit of a product, merging with an existing line
+ */
+export const addToCart = (cart: CartLine[], product: Product): CartLine[] => {
+  const existing = cart.find(line => line.product.id === product.id);
+  if (!existing) {
+    return [...cart, { product, quantity: 1 }];
+  }
+  return cart.map(line => (line === existing ? { ...line, quantity: line.quantity + 1 } : line));
+};
+
+/**
+ * Set the quantity of a line; zero or less removes it
+ */
+export const setCartQuantity = (cart: CartLine[], productId: string, quantity: number): CartLine[] =>
+  quantity <= 0
+    ? cart.filter(line => line.product.id !== productId)
+    : cart.map(line => (line.product.id === productId ? { ...line, quantity } : line));
+
+export const getCartTotal = (cart: CartLine[]): number =>
+  cart.reduce((total, line) => total + line.product.price * line.quantity, 0);
+
+export const getCartItemCount = (cart: CartLine[]): number =>
+  cart.reduce((count, line) => count + line.quantity, 0);
+
+/**
+ * Line items in the shape the backend stores with the payment request
+ */
+export const toLineItems = (cart: CartLine[]): LineItem[] =>
+  cart.map(({ product, quantity }) => ({
+    name: product.name,
+    sku: product.sku || undefined,
+    quantity,
+    unit_amount: product.price,
+    total_amount: product.price * quantity,
+  }));
+
+/**
+ * Short human readable summary, e.g. "2 × Latte, Croissant"
+ */
+export const describeLineItems = (items: LineItem[]): string =>
+  items.map(item => (item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name)).join(', ');
@@ -0,0 +1,122 @@
+/**
+ * Charge Intent Utilities
+ * Parsing and callbacks for sales started by another app through fpmerchant://charge, amounts in minor currency units
+ */
+
+export interface ChargeIntent {
+  amount: number;
+  currency: string;
+  reference?: string; // The caller's order ID, echoed back in the callback
+  description?: string;
+  callbackUrl?: string;
+}
+
+export type ChargeStatus = 'completed' | 'declined' | 'failed' | 'cancelled' | 'busy' | 'invalid';
+
+export interface ChargeResult {
+  status: ChargeStatus;
+  requestId?: string;
+  amount?: number; // Total charged including any tip
+  error?: string;
+}
+
+// Query parameters as expo-router hands them over
+export type ChargeIntentParams = Record<string, string | string[] | undefined>;
+
+interface ParseOptions {
+  allowedOrigins: string[];
+  currency: string; // The merchant account only takes payments in its own currency
+}
+
+type ParseResult =
+  | { intent: ChargeIntent; error?: undefined }
+  | { intent?: undefined; error: string; callbackUrl?: string }; // callbackUrl is set when the caller can still be told
+
+const MAX_REFERENCE_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const getParam = (params: ChargeIntentParams, key: string): string | undefined => {
+  const value = params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+};
+
+/**
+ * scheme://host of a URL, lower-cased. Works for web origins and for other apps' custom schemes;
+ * URLs without "://" such as javascript: never have an origin.
+ */
+export const getOrigin = (url: string): string | null => {
+  const match = url.trim().match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)/i);
+  if (!match) return null;
+  return `${match[1].toLowerCase()}://${match[2].toLowerCase()}`;
+};
+
+export const isAllowedCallback = (url: string, allowedOrigins: string[]): boolean => {
+  const origin = getOrigin(url);
+  return !!origin && allowedOrigins.some(allowed => getOrigin(allowed) === origin);
+};
+
+export const parseChargeIntent = (params: ChargeIntentParams, options: ParseOptions): ParseResult => {
+  const callbackUrl = getParam(params, 'callback');
+  if (callbackUrl && !isAllowedCallback(callbackUrl, options.allowedOrigins)) {
+    return { error: `${getOrigin(callbackUrl) || 'This callback'} is not an allowed callback origin. Add it under Profile > POS Integrations.` };
+  }
+
+  const fail = (error: string): ParseResult => ({ error, callbackUrl });
+
+  const amountText = getParam(params, 'amount');
+  const amount = amountText && /^\d+$/.test(amountText) ? Number(amountText) : NaN;
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    return fail('The amount must be a whole number of minor currency units, e.g. 1250 for 12.50.');
+  }
+
+  const currency = (getParam(params, 'currency') || options.currency).toUpperCase();
+  if (currency !== options.currency.toUpperCase()) {
+    return fail(`This account takes payments in ${options.currency.toUpperCase()}, not ${currency}.`);
+  }
+
+  const reference = getParam(params, 'ref');
+  if (reference && reference.length > MAX_REFERENCE_LENGTH) {
+    return fail(`The reference can be at most ${MAX_REFERENCE_LENGTH} characters.`);
+  }
+
+  const description = getParam(params, 'description');
+
+  return {
+    intent: {
+      amount,
+      currency,
+      reference,
+      description: description?.slice(0, MAX_DESCRIPTION_LENGTH),
+      callbackUrl,
+    },
+  };
+};
+
+/**
+ * Callback URL with the result appended to its query, keeping any fragment at the end
+ */
+export const buildCallbackUrl = (
+  callbackUrl: string,
+  result: ChargeResult,
+  intent?: Pick<ChargeIntent, 'currency' | 'reference'>
+): string => {
+  const entries: [string, string | number | undefined][] = [
+    ['status', result.status],
+    ['request_id', result.requestId],
+    ['amount', result.amount],
+    ['currency', intent?.currency],
+    ['ref', intent?.reference],
+    ['error', result.error],
+  ];
+  const query = entries
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  const hashIndex = callbackUrl.indexOf('#');
+  const base = hashIndex === -1 ? callbackUrl : callbackUrl.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : callbackUrl.slice(hashIndex);
+  const separator = !base.includes('?') ? '?' : base.endsWith('?') || base.endsWith('&') ? '' : '&';
+  return `${base}${separator}${query}${fragment}`;
+};
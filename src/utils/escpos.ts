@@ -0,0 +1,204 @@
+/**
+ * ESC/POS Utilities
+ * Pure encoder that turns a receipt into the byte stream network thermal printers expect
+ */
+
+import { formatMajorAmount } from './money';
+import { formatStatusLabel } from './refunds';
+import { formatIssuedAt } from './receipt';
+import type { Receipt, ReceiptLine } from './receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export const ESCPOS = {
+  INIT: [ESC, 0x40],
+  ALIGN_LEFT: [ESC, 0x61, 0x00],
+  ALIGN_CENTER: [ESC, 0x61, 0x01],
+  BOLD_ON: [ESC, 0x45, 0x01],
+  BOLD_OFF: [ESC, 0x45, 0x00],
+  SIZE_NORMAL: [GS, 0x21, 0x00],
+  SIZE_DOUBLE: [GS, 0x21, 0x11], // Double width and height
+  FEED_AND_CUT: [GS, 0x56, 0x42, 0x03], // Feed three lines past the cutter, then partial cut
+};
+
+// Characters per line in Font A
+export const PAPER_COLUMNS: Record<58 | 80, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Common non-ASCII characters in formatted amounts and item names
+const TRANSLITERATIONS: Record<string, string> = {
+  '\u00a0': ' ', // No-break space used by some locales in amounts
+  '\u202f': ' ',
+  '€': 'EUR ',
+  '£': 'GBP ',
+  '¥': 'JPY ',
+  '₹': 'Rs ',
+  '×': 'x',
+  '–': '-',
+  '—': '-',
+  '−': '-',
+  '•': '*',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+};
+
+/**
+ * Reduce text to printable ASCII, which every code page agrees on. Accents are dropped and
+ * anything without an ASCII stand-in prints as "?".
+ */
+export const toPrintableText = (text: string): string =>
+  Array.from(text)
+    .map(char => TRANSLITERATIONS[char] ?? char)
+    .join('')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\n]/g, '?');
+
+export const encodeText = (text: string): number[] =>
+  Array.from(toPrintableText(text), char => char.charCodeAt(0));
+
+/**
+ * Break text into lines of at most `width` characters, at spaces where possible.
+ * Words longer than a whole line are split so nothing runs past the paper edge.
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  toPrintableText(text).split(/\s+/).filter(Boolean).forEach(word => {
+    let rest = word;
+    while (rest.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!rest) return;
+
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= width) {
+      current = `${current} ${rest}`;
+    } else {
+      lines.push(current);
+      current = rest;
+    }
+  });
+
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * One line with the left text truncated so the right text stays aligned to the edge
+ */
+export const padColumns = (left: string, right: string, columns: number): string => {
+  const safeLeft = toPrintableText(left);
+  const safeRight = toPrintableText(right);
+  const room = Math.max(0, columns - safeRight.length - 1);
+  const trimmedLeft = safeLeft.length > room ? safeLeft.slice(0, room) : safeLeft;
+  return trimmedLeft + ' '.repeat(columns - trimmedLeft.length - safeRight.length) + safeRight;
+};
+
+/**
+ * Left text wrapped over as many lines as it needs, with the right text on the first line
+ */
+export const wrapColumns = (left: string, right: string, columns: number): string[] => {
+  const safeRight = toPrintableText(right);
+  const room = Math.max(1, columns - safeRight.length - 1);
+  const [first = '', ...rest] = wrapText(left, room);
+  return [padColumns(first, safeRight, columns), ...rest];
+};
+
+/**
+ * Print a QR code with the GS ( k function 165 commands (model 2, error correction M)
+ */
+export const encodeQRCode = (data: string, moduleSize = 6): number[] => {
+  const bytes = encodeText(data);
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+};
+
+interface EncodeReceiptOptions {
+  columns?: number;
+  receiptUrl?: string | null; // Printed as a QR code under the totals
+}
+
+const formatLineName = (line: ReceiptLine): string =>
+  line.quantity > 1 ? `${line.quantity} x ${line.name}` : line.name;
+
+export const encodeReceipt = (receipt: Receipt, options: EncodeReceiptOptions = {}): Uint8Array => {
+  const columns = options.columns ?? PAPER_COLUMNS[58];
+  const format = (amount: number) => formatMajorAmount(amount, receipt.currency);
+  const bytes: number[] = [];
+  const line = (text = '') => bytes.push(...encodeText(text), LF);
+  const divider = () => line('-'.repeat(columns));
+
+  bytes.push(...ESCPOS.INIT, ...ESCPOS.ALIGN_CENTER, ...ESCPOS.BOLD_ON, ...ESCPOS.SIZE_DOUBLE);
+  line(receipt.merchantName);
+  bytes.push(...ESCPOS.SIZE_NORMAL, ...ESCPOS.BOLD_OFF);
+  line(formatIssuedAt(receipt.issuedAt));
+  line();
+
+  bytes.push(...ESCPOS.ALIGN_LEFT);
+  divider();
+  receipt.lines.forEach(item => wrapColumns(formatLineName(item), format(item.amount), columns).forEach(text => line(text)));
+  if (receipt.description && !receipt.lines.length) {
+    wrapText(receipt.description, columns).forEach(text => line(text));
+  }
+  if (receipt.tipAmount) {
+    line(padColumns('Tip', format(receipt.tipAmount), columns));
+  }
+  divider();
+  bytes.push(...ESCPOS.BOLD_ON);
+  line(padColumns('TOTAL', format(receipt.amount), columns));
+  bytes.push(...ESCPOS.BOLD_OFF);
+  line();
+
+  line(`Status: ${formatStatusLabel(receipt.status)}`);
+  line(`Ref: ${receipt.reference}`);
+
+  if (options.receiptUrl) {
+    line();
+    bytes.push(...ESCPOS.ALIGN_CENTER, ...encodeQRCode(options.receiptUrl));
+    line('Scan for your receipt');
+  }
+
+  bytes.push(...ESCPOS.ALIGN_CENTER);
+  line();
+  line('Thank you!');
+  bytes.push(...ESCPOS.FEED_AND_CUT);
+
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * Short page that confirms the printer address and paper width
+ */
+export const encodeTestPage = (columns: number = PAPER_COLUMNS[58]): Uint8Array => {
+  const bytes: number[] = [];
+  const line = (text = '') => bytes.push(...encodeText(text), LF);
+
+  bytes.push(...ESCPOS.INIT, ...ESCPOS.ALIGN_CENTER, ...ESCPOS.BOLD_ON);
+  line('Printer connected');
+  bytes.push(...ESCPOS.BOLD_OFF);
+  line('-'.repeat(columns));
+  line(`${columns} characters per line`);
+  bytes.push(...ESCPOS.FEED_AND_CUT);
+
+  return Uint8Array.from(bytes);
+};
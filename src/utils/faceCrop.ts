@@ -0,0 +1,60 @@
+/**
+ * Face Crop Utilities
+ * Square crop rectangle around a detected face, clamped to the image.
+ * Falls back to the centered square when no face was found.
+ */
+
+import { FACE_CROP_CONFIG } from '@/constants/vision';
+import type { FaceBounds } from '@/services/vision/faceDetector';
+import { getCenteredSquare } from './faceFraming';
+
+export interface CropRect {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The largest face, assumed to be the customer standing at the counter
+ */
+export const pickPrimaryFace = (faces: FaceBounds[]): FaceBounds | null =>
+  faces.reduce<FaceBounds | null>(
+    (largest, face) => (!largest || face.width * face.height > largest.width * largest.height ? face : largest),
+    null
+  );
+
+/**
+ * Whole-pixel square crop. The side grows with the padding but never exceeds the shorter
+ * image edge, and the square is shifted rather than shrunk to stay inside the image.
+ */
+export const getFaceCropRect = (
+  face: FaceBounds | null,
+  imageWidth: number,
+  imageHeight: number,
+  padding: number = FACE_CROP_CONFIG.PADDING
+): CropRect => {
+  const maxSide = Math.floor(Math.min(imageWidth, imageHeight));
+
+  if (!face || face.width <= 0 || face.height <= 0) {
+    const square = getCenteredSquare(imageWidth, imageHeight);
+    return {
+      originX: Math.floor(square.left),
+      originY: Math.floor(square.top),
+      width: maxSide,
+      height: maxSide,
+    };
+  }
+
+  const side = Math.min(maxSide, Math.round(Math.max(face.width, face.height) * (1 + 2 * padding)));
+  const centerX = face.left + face.width / 2;
+  const centerY = face.top + face.height / 2;
+  const clamp = (origin: number, limit: number) => Math.min(Math.max(0, Math.round(origin)), Math.floor(limit) - side);
+
+  return {
+    originX: clamp(centerX - side / 2, imageWidth),
+    originY: clamp(centerY - side / 2, imageHeight),
+    width: side,
+    height: side,
+  };
+};
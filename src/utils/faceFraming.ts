@@ -0,0 +1,67 @@
+/**
+ * Face Framing Utilities
+ * Where a detected face sits relative to the guide circle.
+ * The circular preview shows the centered square of the camera frame.
+ */
+
+import { AUTO_CAPTURE_CONFIG } from '@/constants/vision';
+import type { FaceBounds } from '@/services/vision/faceDetector';
+
+export type FacePlacement = 'none' | 'multiple' | 'off_center' | 'too_far' | 'too_close' | 'centered';
+
+export interface SquareRegion {
+  left: number;
+  top: number;
+  size: number;
+}
+
+export interface FramingConfig {
+  MAX_CENTER_OFFSET: number;
+  MIN_FACE_SIZE: number;
+  MAX_FACE_SIZE: number;
+}
+
+export const FACE_PLACEMENT_GUIDANCE: Record<FacePlacement, string> = {
+  none: 'Position the customer\'s face inside the circle',
+  multiple: 'More than one face in view. Only the customer should be in frame.',
+  off_center: 'Center the face in the circle',
+  too_far: 'Move closer',
+  too_close: 'Move back a little',
+  centered: 'Hold still...',
+};
+
+export const getCenteredSquare = (width: number, height: number): SquareRegion => {
+  const size = Math.min(width, height);
+  return {
+    left: (width - size) / 2,
+    top: (height - size) / 2,
+    size,
+  };
+};
+
+/**
+ * Face center in the square's coordinates, 0..1 on both axes
+ */
+export const getFaceCenter = (face: FaceBounds, square: SquareRegion): { x: number; y: number } => ({
+  x: (face.left + face.width / 2 - square.left) / square.size,
+  y: (face.top + face.height / 2 - square.top) / square.size,
+});
+
+export const getFacePlacement = (
+  faces: FaceBounds[],
+  frameWidth: number,
+  frameHeight: number,
+  config: FramingConfig = AUTO_CAPTURE_CONFIG
+): FacePlacement => {
+  if (faces.length === 0) return 'none';
+  if (faces.length > 1) return 'multiple';
+
+  const square = getCenteredSquare(frameWidth, frameHeight);
+  const center = getFaceCenter(faces[0], square);
+  const size = faces[0].width / square.size;
+
+  if (Math.hypot(center.x - 0.5, center.y - 0.5) > config.MAX_CENTER_OFFSET) return 'off_center';
+  if (size < config.MIN_FACE_SIZE) return 'too_far';
+  if (size > config.MAX_FACE_SIZE) return 'too_close';
+  return 'centered';
+};
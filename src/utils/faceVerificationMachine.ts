@@ -0,0 +1,389 @@
+/**
+ * Face Verification State Machine
+ * Parses verify-face / verify-pin responses into typed outcomes and
+ * drives FaceVerificationComponent through a pure reducer
+ */
+
+import type { FaceVerificationResponse, PinVerificationResponse } from '@/services/api/apiService';
+import { ERROR_MESSAGES, PIN_CONFIG } from '@/constants/api';
+import { MatchCandidate, getMatchCandidates } from './matchHints';
+
+// ============================================
+// Outcomes
+// ============================================
+
+/** Backend processed the payment without customer confirmation */
+export interface AutoPaidOutcome {
+  kind: 'AutoPaid';
+  faceScanId: string;
+  userId?: string;
+  userName?: string;
+  requestId?: string;
+  // Retried submission that matched a sale the backend had already handled
+  duplicate?: boolean;
+}
+
+/** Backend created a payment request the customer must approve */
+export interface RequestSentOutcome {
+  kind: 'RequestSent';
+  faceScanId: string;
+  requestId: string;
+  expiresAt?: string;
+  userId?: string;
+  userName?: string;
+  duplicate?: boolean;
+  paymentUrl?: string; // Set for QR fallback requests, the customer scans it to pay
+}
+
+/** Ambiguous or step-up match, customer must confirm with their PIN */
+export interface PinRequiredOutcome {
+  kind: 'PinRequired';
+  faceScanId: string;
+  pinLength: number;
+  message: string; // Why the PIN is needed, shown above the keypad
+  candidates: MatchCandidate[]; // Masked hints the customer can pick from, empty when there is nothing to pick
+}
+
+export interface NoMatchOutcome {
+  kind: 'NoMatch';
+  message: string;
+}
+
+export interface NoFaceOutcome {
+  kind: 'NoFace';
+  message: string;
+}
+
+export interface ServiceErrorOutcome {
+  kind: 'ServiceError';
+  message: string;
+}
+
+/** Customer entered a wrong PIN, they may try again once any lockout has passed */
+export interface PinRejectedOutcome {
+  kind: 'PinRejected';
+  message: string;
+  attemptsRemaining?: number;
+  lockedUntil?: string; // ISO time before which the backend refuses further PINs
+}
+
+/** Final wrong PIN, the backend will not accept another one for this face scan */
+export interface PinAttemptsExhaustedOutcome {
+  kind: 'PinAttemptsExhausted';
+  message: string;
+}
+
+export type VerificationSuccess = AutoPaidOutcome | RequestSentOutcome;
+export type VerificationFailure =
+  | NoMatchOutcome
+  | NoFaceOutcome
+  | ServiceErrorOutcome
+  | PinAttemptsExhaustedOutcome;
+
+export type VerificationOutcome =
+  | VerificationSuccess
+  | PinRequiredOutcome
+  | NoMatchOutcome
+  | NoFaceOutcome
+  | ServiceErrorOutcome;
+
+export type PinOutcome =
+  | VerificationSuccess
+  | PinRejectedOutcome
+  | PinAttemptsExhaustedOutcome
+  | ServiceErrorOutcome;
+
+/**
+ * PIN length from verify-face, or the default when it is missing or outside what the keypad supports
+ */
+export const getPinLength = (value: unknown): number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= PIN_CONFIG.MIN_LENGTH && value <= PIN_CONFIG.MAX_LENGTH
+    ? value
+    : PIN_CONFIG.DEFAULT_LENGTH;
+
+const getRequestId = (data: { request?: { request_id?: string }; request_id?: string }): string | undefined =>
+  data.request?.request_id || data.request_id || undefined;
+
+/**
+ * A duplicate submission whose existing request has already been paid
+ */
+const isPaidDuplicate = (data: { is_duplicate?: boolean; request?: { status?: string } }): boolean =>
+  data.is_duplicate === true && data.request?.status === 'COMPLETED';
+
+/**
+ * Map a verify-face response to exactly one outcome.
+ * Only typed fields are inspected; `message` is used for display, never for branching.
+ * Shapes that do not fit any outcome become a ServiceError rather than a guessed PIN prompt.
+ */
+export const parseFaceVerificationResponse = (data: FaceVerificationResponse | null | undefined): VerificationOutcome => {
+  if (!data || typeof data !== 'object') {
+    return { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+  }
+
+  if (data.face_detected === false) {
+    return { kind: 'NoFace', message: ERROR_MESSAGES.NO_FACE_DETECTED };
+  }
+
+  if (data.requires_pin) {
+    if (!data.face_scan_id) {
+      return { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+    }
+    return {
+      kind: 'PinRequired',
+      faceScanId: data.face_scan_id,
+      pinLength: getPinLength(data.pin_length),
+      message: data.message
+        || (data.is_ambiguous ? ERROR_MESSAGES.MULTIPLE_FACES_DETECTED : ERROR_MESSAGES.PIN_REQUIRED),
+      candidates: data.is_ambiguous ? getMatchCandidates(data.matches || []) : [],
+    };
+  }
+
+  const requestId = getRequestId(data);
+  const match = data.matches?.[0];
+
+  const duplicate = data.is_duplicate === true;
+
+  if ((data.success && data.auto_payment === true) || isPaidDuplicate(data)) {
+    return {
+      kind: 'AutoPaid',
+      faceScanId: data.face_scan_id || '',
+      userId: match?.user_id,
+      userName: match?.name,
+      requestId,
+      duplicate,
+    };
+  }
+
+  // A payment request exists on the backend, so it must be tracked whatever the other flags say
+  if (requestId) {
+    return {
+      kind: 'RequestSent',
+      faceScanId: data.face_scan_id || '',
+      requestId,
+      expiresAt: data.request?.expires_at,
+      userId: match?.user_id,
+      userName: match?.name,
+      duplicate,
+    };
+  }
+
+  if (data.match_found === false) {
+    return { kind: 'NoMatch', message: data.message || ERROR_MESSAGES.NO_MATCH_FOUND };
+  }
+
+  return { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+};
+
+/**
+ * Map a verify-pin response to an outcome for the face scan it confirms
+ */
+export const parsePinVerificationResponse = (
+  data: PinVerificationResponse | null | undefined,
+  faceScanId: string
+): PinOutcome => {
+  if (!data || typeof data !== 'object') {
+    return { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+  }
+
+  if (!data.success) {
+    const lockedUntil = data.locked_until || undefined;
+    // A lockout expires and allows more attempts; zero attempts without one is final
+    if (data.attempts_remaining === 0 && !lockedUntil) {
+      return { kind: 'PinAttemptsExhausted', message: ERROR_MESSAGES.PIN_ATTEMPTS_EXHAUSTED };
+    }
+    return {
+      kind: 'PinRejected',
+      message: lockedUntil ? ERROR_MESSAGES.PIN_LOCKED : ERROR_MESSAGES.INVALID_PIN,
+      attemptsRemaining: data.attempts_remaining,
+      lockedUntil,
+    };
+  }
+
+  const requestId = getRequestId(data);
+  const match = data.matches?.[0];
+
+  const duplicate = data.is_duplicate === true;
+
+  if (data.auto_payment === true || isPaidDuplicate(data)) {
+    return {
+      kind: 'AutoPaid',
+      faceScanId,
+      userId: match?.user_id || data.verified_user_id,
+      userName: match?.name,
+      requestId,
+      duplicate,
+    };
+  }
+
+  if (requestId) {
+    return {
+      kind: 'RequestSent',
+      faceScanId,
+      requestId,
+      expiresAt: data.request?.expires_at,
+      userId: match?.user_id || data.verified_user_id,
+      userName: match?.name,
+      duplicate,
+    };
+  }
+
+  return { kind: 'ServiceError', message: ERROR_MESSAGES.UNRECOGNIZED_VERIFICATION_RESPONSE };
+};
+
+// ============================================
+// State machine
+// ============================================
+
+/** What a PIN attempt is checked against, kept across retries */
+export interface PinEntry {
+  faceScanId: string;
+  pinLength: number;
+  prompt: string; // Message of the outcome that asked for the PIN
+  candidateUserId?: string; // Set when the customer picked their own hint, only their PIN is checked
+  attemptsRemaining?: number;
+}
+
+export type VerificationState =
+  | { status: 'idle' }
+  | { status: 'verifying' }
+  | ({
+      status: 'awaitingPin';
+      candidates: MatchCandidate[]; // Cleared once the customer picks a hint or skips
+      pinError?: string;
+      lockedUntil?: string;
+    } & PinEntry)
+  | ({ status: 'verifyingPin' } & PinEntry)
+  | { status: 'succeeded'; outcome: VerificationSuccess }
+  | { status: 'failed'; outcome: VerificationFailure };
+
+export type VerificationEvent =
+  | { type: 'CAPTURE_STARTED' }
+  | { type: 'CAPTURE_FAILED'; message: string }
+  | { type: 'FACE_OUTCOME'; outcome: VerificationOutcome }
+  | { type: 'REQUEST_FAILED'; message: string }
+  | { type: 'CANDIDATE_SELECTED'; userId?: string }
+  | { type: 'PIN_SUBMITTED' }
+  | { type: 'PIN_OUTCOME'; outcome: PinOutcome }
+  | { type: 'CANCEL' }
+  | { type: 'RESET' };
+
+export const initialVerificationState: VerificationState = { status: 'idle' };
+
+const getPinEntry = (state: PinEntry): PinEntry => ({
+  faceScanId: state.faceScanId,
+  pinLength: state.pinLength,
+  prompt: state.prompt,
+  candidateUserId: state.candidateUserId,
+  attemptsRemaining: state.attemptsRemaining,
+});
+
+/**
+ * Pure transition function. Events that do not apply to the current
+ * status are ignored and the same state object is returned.
+ */
+export const verificationReducer = (state: VerificationState, event: VerificationEvent): VerificationState => {
+  switch (event.type) {
+    case 'CAPTURE_STARTED':
+      if (state.status === 'idle' || state.status === 'failed') {
+        return { status: 'verifying' };
+      }
+      return state;
+
+    case 'CAPTURE_FAILED':
+    case 'REQUEST_FAILED':
+      if (state.status === 'verifying') {
+        return { status: 'failed', outcome: { kind: 'ServiceError', message: event.message } };
+      }
+      return state;
+
+    case 'FACE_OUTCOME': {
+      if (state.status !== 'verifying') return state;
+      const { outcome } = event;
+      switch (outcome.kind) {
+        case 'PinRequired':
+          return {
+            status: 'awaitingPin',
+            faceScanId: outcome.faceScanId,
+            pinLength: outcome.pinLength,
+            prompt: outcome.message,
+            candidates: outcome.candidates,
+          };
+        case 'AutoPaid':
+        case 'RequestSent':
+          return { status: 'succeeded', outcome };
+        case 'NoMatch':
+        case 'NoFace':
+        case 'ServiceError':
+          return { status: 'failed', outcome };
+        default:
+          return assertNever(outcome);
+      }
+    }
+
+    case 'CANDIDATE_SELECTED':
+      if (state.status === 'awaitingPin' && state.candidates.length > 0) {
+        return { ...state, candidates: [], candidateUserId: event.userId };
+      }
+      return state;
+
+    case 'PIN_SUBMITTED':
+      if (state.status === 'awaitingPin') {
+        return { status: 'verifyingPin', ...getPinEntry(state) };
+      }
+      return state;
+
+    case 'PIN_OUTCOME': {
+      if (state.status !== 'verifyingPin') return state;
+      const { outcome } = event;
+      switch (outcome.kind) {
+        case 'AutoPaid':
+        case 'RequestSent':
+          return { status: 'succeeded', outcome };
+        case 'PinRejected':
+          return {
+            status: 'awaitingPin',
+            ...getPinEntry(state),
+            candidates: [],
+            pinError: outcome.message,
+            attemptsRemaining: outcome.attemptsRemaining,
+            lockedUntil: outcome.lockedUntil,
+          };
+        case 'PinAttemptsExhausted':
+          return { status: 'failed', outcome };
+        case 'ServiceError':
+          // No verdict on the PIN, so the last known attempt count still applies
+          return {
+            status: 'awaitingPin',
+            ...getPinEntry(state),
+            candidates: [],
+            pinError: outcome.message,
+          };
+        default:
+          return assertNever(outcome);
+      }
+    }
+
+    case 'CANCEL':
+    case 'RESET':
+      return initialVerificationState;
+
+    default:
+      return assertNever(event);
+  }
+};
+
+/**
+ * Whether a network round trip is in progress
+ */
+export const isVerificationBusy = (state: VerificationState): boolean =>
+  state.status === 'verifying' || state.status === 'verifyingPin';
+
+/**
+ * Whether the PIN modal should be shown
+ */
+export const isAwaitingPin = (state: VerificationState): boolean =>
+  state.status === 'awaitingPin' || state.status === 'verifyingPin';
+
+function assertNever(value: never): never {
+  throw new Error(`Unhandled verification value: ${JSON.stringify(value)}`);
+}
@@ -0,0 +1,23 @@
+/**
+ * Idempotency Utilities
+ * Client-generated keys that let the backend recognize retried submissions
+ */
+
+/**
+ * Create a random RFC 4122 version 4 style key
+ */
+export const createIdempotencyKey = (): string => {
+  const timestamp = Date.now().toString(16).padStart(12, '0').slice(-12);
+  const random = (length: number) =>
+    Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+  const variant = (8 + Math.floor(Math.random() * 4)).toString(16);
+
+  // Leading timestamp keeps keys unique even if Math.random repeats across app restarts
+  return `${timestamp.slice(0, 8)}-${timestamp.slice(8, 12)}-4${random(3)}-${variant}${random(3)}-${random(12)}`;
+};
+
+/**
+ * Derive a key for a follow-up step of the same sale, e.g. a PIN entry after a face scan
+ */
+export const deriveIdempotencyKey = (baseKey: string, ...parts: (string | number)[]): string =>
+  [baseKey, ...parts].join(':');
@@ -0,0 +1,179 @@
+/**
+ * Image Quality Utilities
+ * Pure scoring of a captured face frame: brightness, contrast, blur and framing.
+ * Works on grayscale pixels so it can be fed decoded sample images directly.
+ */
+
+import { QUALITY_THRESHOLDS } from '@/constants/vision';
+import type { FaceBounds } from '@/services/vision/faceDetector';
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array; // Luma 0..255, row-major
+}
+
+export interface QualityMetrics {
+  brightness: number; // Mean luma 0..255
+  contrast: number; // Standard deviation of luma
+  sharpness: number; // Variance of the Laplacian, low means blurry or moving
+  faceCount: number;
+  centerOffset?: number; // Distance of the face center from the image center, fraction of the image size
+  faceSize?: number; // Face width as a fraction of the image width
+}
+
+export type QualityIssue =
+  | 'too_dark'
+  | 'too_bright'
+  | 'low_contrast'
+  | 'blurry'
+  | 'no_face'
+  | 'multiple_faces'
+  | 'off_center'
+  | 'too_far'
+  | 'too_close';
+
+export interface QualityReport {
+  passed: boolean;
+  issues: QualityIssue[];
+  metrics: QualityMetrics;
+}
+
+export type QualityThresholds = typeof QUALITY_THRESHOLDS;
+
+export const QUALITY_GUIDANCE: Record<QualityIssue, string> = {
+  too_dark: 'Too dark. Move to better light or face the light source.',
+  too_bright: 'Too bright. Avoid direct light or glare on the face.',
+  low_contrast: 'The face is washed out. Avoid standing with a bright light behind the customer.',
+  blurry: 'Image is blurry. Hold still and keep the camera steady.',
+  no_face: 'No face found. Center the customer\'s face in the circle.',
+  multiple_faces: 'More than one face in view. Only the customer should be in frame.',
+  off_center: 'Center the customer\'s face in the circle.',
+  too_far: 'Move closer so the face fills more of the circle.',
+  too_close: 'Move back so the whole face fits in the circle.',
+};
+
+/**
+ * Convert RGBA pixels to luma, averaging each factor × factor block to reduce noise and work
+ */
+export const toGrayscale = (rgba: Uint8Array, width: number, height: number, factor: number = 1): GrayImage => {
+  const outWidth = Math.floor(width / factor);
+  const outHeight = Math.floor(height / factor);
+  const data = new Float32Array(outWidth * outHeight);
+  const blockSize = factor * factor;
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const i = ((y * factor + dy) * width + (x * factor + dx)) * 4;
+          sum += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+        }
+      }
+      data[y * outWidth + x] = sum / blockSize;
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data };
+};
+
+/**
+ * Sub-image inside the given bounds, clamped to the image
+ */
+export const cropGray = (image: GrayImage, bounds: FaceBounds): GrayImage => {
+  const left = Math.max(0, Math.floor(bounds.left));
+  const top = Math.max(0, Math.floor(bounds.top));
+  const right = Math.min(image.width, Math.ceil(bounds.left + bounds.width));
+  const bottom = Math.min(image.height, Math.ceil(bounds.top + bounds.height));
+  const width = Math.max(0, right - left);
+  const height = Math.max(0, bottom - top);
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    data.set(image.data.subarray((top + y) * image.width + left, (top + y) * image.width + left + width), y * width);
+  }
+
+  return { width, height, data };
+};
+
+const mean = (values: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length ? sum / values.length : 0;
+};
+
+const standardDeviation = (values: Float32Array): number => {
+  const average = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - average) ** 2;
+  return values.length ? Math.sqrt(sum / values.length) : 0;
+};
+
+export const measureBrightness = (image: GrayImage): number => mean(image.data);
+
+export const measureContrast = (image: GrayImage): number => standardDeviation(image.data);
+
+/**
+ * Variance of the 4-neighbour Laplacian over the interior pixels
+ */
+export const measureSharpness = (image: GrayImage): number => {
+  const { width, height, data } = image;
+  if (width < 3 || height < 3) return 0;
+
+  const laplacian = new Float32Array((width - 2) * (height - 2));
+  let index = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      laplacian[index++] = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+    }
+  }
+
+  return standardDeviation(laplacian) ** 2;
+};
+
+/**
+ * Measure a frame; light and sharpness are taken over the face when one is known,
+ * so a bright background cannot hide an underexposed face
+ */
+export const measureQuality = (image: GrayImage, faces: FaceBounds[]): QualityMetrics => {
+  const face = faces.length === 1 ? faces[0] : null;
+  const region = face ? cropGray(image, face) : image;
+  const measured = region.width >= 3 && region.height >= 3 ? region : image;
+
+  const metrics: QualityMetrics = {
+    brightness: measureBrightness(measured),
+    contrast: measureContrast(measured),
+    sharpness: measureSharpness(measured),
+    faceCount: faces.length,
+  };
+
+  if (face) {
+    const centerX = face.left + face.width / 2;
+    const centerY = face.top + face.height / 2;
+    metrics.centerOffset = Math.hypot(centerX / image.width - 0.5, centerY / image.height - 0.5);
+    metrics.faceSize = face.width / image.width;
+  }
+
+  return metrics;
+};
+
+/**
+ * Compare metrics against thresholds; issues are ordered by how useful the guidance is
+ */
+export const assessQuality = (metrics: QualityMetrics, thresholds: QualityThresholds = QUALITY_THRESHOLDS): QualityReport => {
+  const issues: QualityIssue[] = [];
+
+  if (metrics.faceCount === 0) issues.push('no_face');
+  if (metrics.faceCount > 1) issues.push('multiple_faces');
+  if (metrics.brightness < thresholds.MIN_BRIGHTNESS) issues.push('too_dark');
+  if (metrics.brightness > thresholds.MAX_BRIGHTNESS) issues.push('too_bright');
+  if (metrics.contrast < thresholds.MIN_CONTRAST) issues.push('low_contrast');
+  if (metrics.sharpness < thresholds.MIN_SHARPNESS) issues.push('blurry');
+  if (metrics.centerOffset !== undefined && metrics.centerOffset > thresholds.MAX_CENTER_OFFSET) issues.push('off_center');
+  if (metrics.faceSize !== undefined && metrics.faceSize < thresholds.MIN_FACE_SIZE) issues.push('too_far');
+  if (metrics.faceSize !== undefined && metrics.faceSize > thresholds.MAX_FACE_SIZE) issues.push('too_close');
+
+  return { passed: issues.length === 0, issues, metrics };
+};
@@ -0,0 +1,56 @@
+/**
+ * Match Hint Utilities
+ * Masked candidate hints shown when verify-face matches more than one customer,
+ * so the customer can point out their own account before entering a PIN
+ */
+
+import type { FaceMatch } from '@/services/api/apiService';
+
+export interface MatchCandidate {
+  userId: string;
+  initials: string;
+  phoneLastTwo?: string;
+}
+
+/**
+ * First letters of the first and last name, e.g. "Jane Mary Doe" -> "JD"
+ */
+export const getInitials = (name?: string): string => {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : '';
+  return `${first}${last}`.toUpperCase();
+};
+
+const getPhoneLastTwo = (value?: string): string | undefined => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 2 ? digits.slice(-2) : undefined;
+};
+
+const toCandidate = (match: FaceMatch): MatchCandidate => ({
+  userId: match.user_id,
+  initials: match.initials ? match.initials.replace(/[\s.]/g, '').slice(0, 2).toUpperCase() : getInitials(match.name),
+  phoneLastTwo: getPhoneLastTwo(match.phone_last_two),
+});
+
+/**
+ * Candidates to offer, or none when hints cannot tell the matches apart.
+ * Matches without hints, or two matches with the same hint, fall back to a plain PIN prompt.
+ */
+export const getMatchCandidates = (matches: FaceMatch[]): MatchCandidate[] => {
+  const candidates: MatchCandidate[] = [];
+  matches.forEach(match => {
+    if (match.user_id && !candidates.some(candidate => candidate.userId === match.user_id)) {
+      candidates.push(toCandidate(match));
+    }
+  });
+
+  if (candidates.length < 2) return [];
+
+  const labels = candidates.map(candidate => `${candidate.initials}|${candidate.phoneLastTwo || ''}`);
+  const hasHints = candidates.every(candidate => candidate.initials || candidate.phoneLastTwo);
+  const isDistinct = new Set(labels).size === labels.length;
+
+  return hasHints && isDistinct ? candidates : [];
+};
@@ -0,0 +1,113 @@
+/**
+ * Money Utilities
+ * The single place for currency precision, minor-unit conversion and locale-aware formatting.
+ * Amounts sent to the backend are integers in the currency's minor unit (cents for USD, yen for JPY).
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies Stripe charges without a minor unit
+const ZERO_DECIMAL_CURRENCIES = [
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+];
+
+// Currencies with a thousandth minor unit
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'JOD', 'KWD', 'OMR', 'TND'];
+
+const normalizeCurrency = (currency?: string | null): string =>
+  (currency || DEFAULT_CURRENCY).toUpperCase();
+
+/**
+ * Number of digits after the decimal point for a currency
+ */
+export const getCurrencyDecimals = (currency?: string | null): number => {
+  const code = normalizeCurrency(currency);
+  if (ZERO_DECIMAL_CURRENCIES.includes(code)) return 0;
+  if (THREE_DECIMAL_CURRENCIES.includes(code)) return 3;
+  return 2;
+};
+
+/**
+ * Convert a major-unit amount (e.g. 12.5 dollars) to integer minor units (1250 cents)
+ */
+export const toMinorUnits = (amount: number, currency?: string | null): number =>
+  Math.round(amount * Math.pow(10, getCurrencyDecimals(currency)));
+
+/**
+ * Convert integer minor units back to a major-unit amount
+ */
+export const fromMinorUnits = (amount: number, currency?: string | null): number =>
+  amount / Math.pow(10, getCurrencyDecimals(currency));
+
+/**
+ * Parse what the merchant typed into minor units.
+ * Returns null for empty or malformed input, or more decimals than the currency allows.
+ */
+export const parseAmountInput = (text: string, currency?: string | null): number | null => {
+  const decimals = getCurrencyDecimals(currency);
+  const cleaned = text.trim().replace(/,/g, '.');
+  const pattern = decimals > 0 ? new RegExp(`^\\d*(\\.\\d{0,${decimals}})?$`) : /^\d*$/;
+
+  if (!cleaned || cleaned === '.' || !pattern.test(cleaned)) {
+    return null;
+  }
+
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? null : toMinorUnits(value, currency);
+};
+
+/**
+ * Plain number for an editable input, e.g. "12.50" for USD or "1250" for JPY
+ */
+export const formatAmountInput = (amount: number, currency?: string | null): string =>
+  fromMinorUnits(amount, currency).toFixed(getCurrencyDecimals(currency));
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string): Intl.NumberFormat => {
+  let formatter = formatterCache.get(currency);
+  if (!formatter) {
+    const decimals = getCurrencyDecimals(currency);
+    formatter = new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    });
+    formatterCache.set(currency, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Format a major-unit amount in the device locale, e.g. "$1,234.50" or "¥1,235"
+ */
+export const formatMajorAmount = (amount: number, currency?: string | null): string => {
+  const code = normalizeCurrency(currency);
+  try {
+    return getFormatter(code).format(amount);
+  } catch {
+    // Unknown currency code or missing Intl support
+    return `${code} ${amount.toFixed(getCurrencyDecimals(code))}`;
+  }
+};
+
+/**
+ * Format an amount held in minor units
+ */
+export const formatMoney = (amount: number, currency?: string | null): string =>
+  formatMajorAmount(fromMinorUnits(amount, currency), currency);
+
+/**
+ * Symbol shown next to amount inputs, falling back to the currency code
+ */
+export const getCurrencySymbol = (currency?: string | null): string => {
+  const code = normalizeCurrency(currency);
+  try {
+    const part = getFormatter(code).formatToParts(0).find(p => p.type === 'currency');
+    return part?.value || code;
+  } catch {
+    return code;
+  }
+};
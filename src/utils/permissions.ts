@@ -0,0 +1,33 @@
+/**
+ * Permission Utilities
+ * What each staff role may do on a shared device. The backend enforces the same rules for the staff token.
+ */
+
+import type { StaffRole } from '@/types';
+
+export type Permission =
+  | 'refunds' // Issue full and partial refunds
+  | 'payouts' // See payout status and run Stripe onboarding
+  | 'settings' // Change payment and app settings
+  | 'staff'; // Add and remove staff accounts
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ['refunds', 'payouts', 'settings', 'staff'],
+  manager: ['refunds', 'settings'],
+  cashier: [],
+};
+
+export const STAFF_ROLES: { key: StaffRole; label: string; description: string }[] = [
+  { key: 'cashier', label: 'Cashier', description: 'Takes payments and sends receipts' },
+  { key: 'manager', label: 'Manager', description: 'Also issues refunds and changes settings' },
+  { key: 'owner', label: 'Owner', description: 'Everything, including payouts and staff' },
+];
+
+// Role used when the active staff member cannot be determined
+export const LOWEST_ROLE: StaffRole = STAFF_ROLES[0].key;
+
+export const getRoleLabel = (role: StaffRole): string =>
+  STAFF_ROLES.find(item => item.key === role)?.label || role;
+
+export const hasPermission = (role: StaffRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
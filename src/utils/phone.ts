@@ -0,0 +1,20 @@
+/**
+ * Phone Utilities
+ * US phone number entry as used in sign-up: (XXX) XXX-XXXX on screen, E.164 on the wire
+ */
+
+/**
+ * Format typed digits as (XXX) XXX-XXXX, extra digits are dropped
+ */
+export const formatPhoneInput = (text: string): string => {
+  const cleaned = text.replace(/\D/g, '').slice(0, 10);
+  const match = cleaned.match(/^(\d{0,3})(\d{0,3})(\d{0,4})$/);
+  if (!match) return cleaned;
+  return !match[2] ? match[1] : `(${match[1]}) ${match[2]}${match[3] ? `-${match[3]}` : ''}`;
+};
+
+export const isCompletePhoneNumber = (text: string): boolean =>
+  text.replace(/\D/g, '').length === 10;
+
+export const toE164PhoneNumber = (text: string): string =>
+  `+1${text.replace(/\D/g, '')}`;
@@ -0,0 +1,159 @@
+/**
+ * Receipt Utilities
+ * Pure helpers that build a customer receipt and render it as text or HTML, amounts in major currency units
+ */
+
+import type { LineItem, Transaction } from '@/types';
+import { formatMajorAmount, fromMinorUnits } from './money';
+import { formatStatusLabel } from './refunds';
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Receipt {
+  merchantName: string;
+  reference: string; // Payment request or transaction ID, also keys the hosted copy
+  amount: number;
+  tipAmount?: number;
+  currency: string;
+  description?: string;
+  lines: ReceiptLine[];
+  status: string;
+  issuedAt: string; // ISO timestamp
+}
+
+// A sale as ScanScreen holds it, amounts in minor currency units
+interface CompletedSale {
+  reference: string;
+  amount: number;
+  tipAmount: number;
+  currency: string;
+  description?: string;
+  lineItems?: LineItem[];
+  status: string;
+  issuedAt?: string;
+}
+
+const toReceiptLines = (lineItems: LineItem[] | undefined, currency: string): ReceiptLine[] =>
+  (lineItems || []).map(item => ({
+    name: item.name,
+    quantity: item.quantity,
+    amount: fromMinorUnits(item.total_amount, currency),
+  }));
+
+export const buildSaleReceipt = (sale: CompletedSale, merchantName: string): Receipt => ({
+  merchantName,
+  reference: sale.reference,
+  amount: fromMinorUnits(sale.amount, sale.currency),
+  tipAmount: sale.tipAmount > 0 ? fromMinorUnits(sale.tipAmount, sale.currency) : undefined,
+  currency: sale.currency,
+  description: sale.description || undefined,
+  lines: toReceiptLines(sale.lineItems, sale.currency),
+  status: sale.status,
+  issuedAt: sale.issuedAt || new Date().toISOString(),
+});
+
+export const buildTransactionReceipt = (
+  transaction: Transaction,
+  merchantName: string,
+  fallbackCurrency: string
+): Receipt => {
+  const currency = transaction.currency || fallbackCurrency;
+  return {
+    merchantName,
+    reference: transaction.id,
+    amount: transaction.amount,
+    currency,
+    description: transaction.description || undefined,
+    lines: toReceiptLines(transaction.line_items, currency),
+    status: transaction.status,
+    issuedAt: transaction.created_at,
+  };
+};
+
+/**
+ * Date and time printed under the merchant name
+ */
+export const formatIssuedAt = (issuedAt: string): string => {
+  const date = new Date(issuedAt);
+  return `${date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })} ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const formatLineName = (line: ReceiptLine): string =>
+  line.quantity > 1 ? `${line.quantity} × ${line.name}` : line.name;
+
+/**
+ * Plain text for the share sheet and SMS
+ */
+export const formatReceiptText = (receipt: Receipt, receiptUrl?: string | null): string => {
+  const format = (amount: number) => formatMajorAmount(amount, receipt.currency);
+  const rows = [
+    `Receipt from ${receipt.merchantName}`,
+    '',
+    ...receipt.lines.map(line => `${formatLineName(line)}  ${format(line.amount)}`),
+    ...(receipt.description && !receipt.lines.length ? [receipt.description] : []),
+    ...(receipt.tipAmount ? [`Tip  ${format(receipt.tipAmount)}`] : []),
+    `Total  ${format(receipt.amount)}`,
+    '',
+    `Status: ${formatStatusLabel(receipt.status)}`,
+    `Date: ${formatIssuedAt(receipt.issuedAt)}`,
+    `Reference: ${receipt.reference}`,
+  ];
+
+  if (receiptUrl) {
+    rows.push('', `View online: ${receiptUrl}`);
+  }
+  return rows.join('\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Printable page for the PDF copy
+ */
+export const formatReceiptHtml = (receipt: Receipt, receiptUrl?: string | null): string => {
+  const format = (amount: number) => escapeHtml(formatMajorAmount(amount, receipt.currency));
+  const row = (label: string, value: string, className = '') =>
+    `<tr class="${className}"><td>${label}</td><td class="value">${value}</td></tr>`;
+
+  const itemRows = [
+    ...receipt.lines.map(line => row(escapeHtml(formatLineName(line)), format(line.amount))),
+    ...(receipt.description && !receipt.lines.length ? [row(escapeHtml(receipt.description), '')] : []),
+    ...(receipt.tipAmount ? [row('Tip', format(receipt.tipAmount))] : []),
+    row('Total', format(receipt.amount), 'total'),
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1F2937; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .muted { color: #6B7280; font-size: 13px; margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+  td { padding: 8px 0; border-bottom: 1px solid #E5E7EB; font-size: 15px; }
+  .value { text-align: right; }
+  .total td { font-weight: bold; font-size: 18px; border-bottom: none; }
+  a { color: #6B46C1; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(receipt.merchantName)}</h1>
+  <p class="muted">${escapeHtml(formatIssuedAt(receipt.issuedAt))}</p>
+  <table>${itemRows}</table>
+  <p class="muted">Status: ${escapeHtml(formatStatusLabel(receipt.status))}</p>
+  <p class="muted">Reference: ${escapeHtml(receipt.reference)}</p>
+  ${receiptUrl ? `<p class="muted">View online: <a href="${escapeHtml(receiptUrl)}">${escapeHtml(receiptUrl)}</a></p>` : ''}
+</body>
+</html>`;
+};
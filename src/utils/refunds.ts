@@ -0,0 +1,45 @@
+/**
+ * Refund Utilities
+ * Helpers for refundable balances, amounts in major currency units like the transactions API
+ */
+
+import type { RefundReason } from '@/services/api/apiService';
+
+export const REFUND_REASONS: { key: RefundReason; label: string }[] = [
+  { key: 'requested_by_customer', label: 'Customer request' },
+  { key: 'duplicate', label: 'Duplicate charge' },
+  { key: 'fraudulent', label: 'Fraudulent' },
+  { key: 'other', label: 'Other' },
+];
+
+interface RefundableTransaction {
+  amount: number;
+  status: string;
+  refunded_amount?: number;
+}
+
+const PAID_STATUSES = ['succeeded', 'completed', 'partially_refunded'];
+
+/**
+ * Whether the transaction was paid, including ones that were later partially refunded
+ */
+export const isPaidStatus = (status?: string): boolean =>
+  PAID_STATUSES.includes((status || '').toLowerCase());
+
+export const isRefundStatus = (status?: string): boolean =>
+  ['refunded', 'partially_refunded'].includes((status || '').toLowerCase());
+
+/**
+ * What the merchant kept after refunds, zero for anything that was not paid
+ */
+export const getNetAmount = (transaction: RefundableTransaction): number =>
+  isPaidStatus(transaction.status)
+    ? Math.max(0, (transaction.amount || 0) - (transaction.refunded_amount || 0))
+    : 0;
+
+export const canRefund = (transaction: RefundableTransaction): boolean => getNetAmount(transaction) > 0;
+
+/**
+ * Status label for display, e.g. "partially refunded"
+ */
+export const formatStatusLabel = (status: string): string => status.replace(/_/g, ' ');
@@ -0,0 +1,39 @@
+/**
+ * Tip Utilities
+ * Gratuity selection and calculation in minor currency units
+ */
+
+import { TIP_CONFIG } from '@/constants/settings';
+
+export type TipSelection =
+  | { type: 'none' }
+  | { type: 'percent'; percent: number }
+  | { type: 'custom'; amount: number }; // Minor units
+
+export const NO_TIP: TipSelection = { type: 'none' };
+
+/**
+ * Tip for a subtotal, both in minor units, rounded to the nearest minor unit
+ */
+export const getTipAmount = (selection: TipSelection, subtotal: number): number => {
+  switch (selection.type) {
+    case 'percent':
+      return Math.round((subtotal * selection.percent) / 100);
+    case 'custom':
+      return Math.max(0, Math.round(selection.amount));
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Clean up merchant-entered presets: whole percentages in range, unique, ascending
+ */
+export const normalizeTipPresets = (presets: number[]): number[] =>
+  Array.from(new Set(
+    presets
+      .map(Math.round)
+      .filter(percent => Number.isFinite(percent) && percent > 0 && percent <= TIP_CONFIG.MAX_PERCENT)
+  ))
+    .sort((a, b) => a - b)
+    .slice(0, TIP_CONFIG.MAX_PRESETS);